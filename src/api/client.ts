@@ -0,0 +1,224 @@
+import axios from 'axios';
+import { messages } from '../i18n/index.js';
+import { BackendSession } from '../utils/session.js';
+import { readSseEvents } from '../utils/sse.js';
+import { ApiError, AuthError, NetworkError, StreamError, errorFromResponse } from './errors.js';
+import { AskRequest, Case, CaseInput, Client, ClientInput, Document } from './types.js';
+
+interface RequestOptions {
+  method?: string;
+  json?: unknown;
+  body?: BodyInit;
+  accept?: string;
+  signal?: AbortSignal;
+}
+
+export interface AskStreamingOptions {
+  signal?: AbortSignal;
+  onChunk?: (chunk: string) => Promise<void> | void;
+}
+
+/**
+ * Cliente tipado de la API de Legal Assistant RAG. Todas las herramientas
+ * pasan por aquí, de modo que las rutas, cabeceras y el tratamiento de
+ * errores del backend se definen en un único sitio. En modo HTTP recibe una
+ * función que da la sesión de la petición en curso, porque la identidad del
+ * backend puede cambiar entre peticiones de una misma sesión MCP.
+ */
+export class LarApiClient {
+  private readonly resolveSession: () => BackendSession;
+
+  constructor(session: BackendSession | (() => BackendSession)) {
+    this.resolveSession = typeof session === 'function' ? session : () => session;
+  }
+
+  private get session(): BackendSession {
+    return this.resolveSession();
+  }
+
+  // Auth
+
+  getUserId(): Promise<string> {
+    return this.call(this.session.apiUrl, () => this.session.getUserId());
+  }
+
+  // Files
+
+  listFiles(): Promise<Document[]> {
+    return this.request<Document[]>('/api/files');
+  }
+
+  async uploadFile(name: string, file: Blob, fileName = name): Promise<Document> {
+    const formData = new FormData();
+    formData.append('Name', name);
+    formData.append('File', file, fileName);
+    formData.append('ScrapedAt', new Date().toISOString());
+
+    const result = await this.request<Document & { Id?: number }>('/api/files', { method: 'POST', body: formData });
+    return { ...result, id: result?.Id ?? result?.id };
+  }
+
+  async deleteFile(name: string): Promise<void> {
+    await this.execute(`/api/files/${encodeURIComponent(name)}`, { method: 'DELETE' });
+  }
+
+  // Clients
+
+  listClients(): Promise<Client[]> {
+    return this.request<Client[]>('/api/clients/user');
+  }
+
+  getClient(id: number): Promise<Client> {
+    return this.request<Client>(`/api/clients/${id}`);
+  }
+
+  createClient(input: ClientInput): Promise<Client> {
+    return this.request<Client>('/api/clients', { method: 'POST', json: input });
+  }
+
+  updateClient(id: number, input: ClientInput): Promise<Client> {
+    return this.request<Client>(`/api/clients/${id}`, { method: 'PUT', json: input });
+  }
+
+  async deleteClient(id: number): Promise<void> {
+    await this.execute(`/api/clients/${id}`, { method: 'DELETE' });
+  }
+
+  // Cases
+
+  listCases(): Promise<Case[]> {
+    return this.request<Case[]>('/api/cases');
+  }
+
+  getCase(id: number): Promise<Case> {
+    return this.request<Case>(`/api/cases/${id}`);
+  }
+
+  createCase(input: CaseInput): Promise<Case> {
+    return this.request<Case>('/api/cases', { method: 'POST', json: input });
+  }
+
+  updateCase(id: number, input: CaseInput): Promise<Case> {
+    return this.request<Case>(`/api/cases/${id}`, { method: 'PUT', json: input });
+  }
+
+  async deleteCase(id: number): Promise<void> {
+    await this.execute(`/api/cases/${id}`, { method: 'DELETE' });
+  }
+
+  // Case documents (solo si el backend implementa la vinculación)
+
+  listCaseDocuments(caseId: number): Promise<Document[]> {
+    return this.request<Document[]>(`/api/cases/${caseId}/documents`);
+  }
+
+  async attachCaseDocument(caseId: number, fileId: number): Promise<void> {
+    await this.execute(`/api/cases/${caseId}/documents`, { method: 'POST', json: { fileId } });
+  }
+
+  async detachCaseDocument(caseId: number, fileId: number): Promise<void> {
+    await this.execute(`/api/cases/${caseId}/documents/${fileId}`, { method: 'DELETE' });
+  }
+
+  // Chat
+
+  /** Devuelve la respuesta sin consumir para que el llamador lea el stream SSE. */
+  async ask(request: AskRequest, signal?: AbortSignal): Promise<Response> {
+    const response = await this.send('/api/chat/ask', {
+      method: 'POST',
+      json: request,
+      accept: 'text/event-stream',
+      signal,
+    });
+
+    if (!response.ok) {
+      throw errorFromResponse(response.status, await response.text());
+    }
+    return response;
+  }
+
+  /**
+   * Consulta un documento y concatena los eventos `message` del stream.
+   * Un evento `error` se lanza como StreamError y `done` termina la lectura.
+   */
+  async askStreaming(request: AskRequest, { signal, onChunk }: AskStreamingOptions = {}): Promise<string> {
+    const response = await this.ask(request, signal);
+    if (!response.body) {
+      throw new Error(messages().api.streamNotStarted);
+    }
+
+    let fullText = '';
+    for await (const event of readSseEvents(response.body, signal)) {
+      if (event.event === 'error') {
+        throw new StreamError(event.data);
+      }
+      if (event.event === 'done') {
+        break;
+      }
+      if (event.event === 'message') {
+        fullText += event.data;
+        await onChunk?.(event.data);
+      }
+    }
+    return fullText;
+  }
+
+  /** Peticiones cuya respuesta es un recurso JSON; cualquier otra cosa es un error del backend. */
+  private async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const { status, text } = await this.execute(path, options);
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new ApiError(status, text, messages().api.unexpectedResponse(path));
+    }
+  }
+
+  /** Peticiones sin resultado (borrados, vínculos); el cuerpo de la respuesta se ignora. */
+  private async execute(path: string, options: RequestOptions = {}): Promise<{ status: number; text: string }> {
+    const response = await this.send(path, options);
+    const text = await response.text();
+
+    if (!response.ok) {
+      throw errorFromResponse(response.status, text);
+    }
+    return { status: response.status, text };
+  }
+
+  private send(path: string, { method = 'GET', json, body, accept = 'application/json', signal }: RequestOptions): Promise<Response> {
+    const url = `${this.session.apiUrl}${path}`;
+    const headers: Record<string, string> = { Accept: accept };
+    if (json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    return this.call(url, () => this.session.fetch(url, {
+      method,
+      headers,
+      body: json !== undefined ? JSON.stringify(json) : body,
+      signal,
+    }));
+  }
+
+  private async call<T>(url: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (!error.response) {
+          throw new NetworkError(url, error);
+        }
+        const body = typeof error.response.data === 'string'
+          ? error.response.data
+          : JSON.stringify(error.response.data ?? '');
+        throw error.response.status === 401
+          ? new AuthError(401, body, messages().api.credentialsRejected(body || '401'))
+          : errorFromResponse(error.response.status, body);
+      }
+      // fetch() rechaza con TypeError cuando no hay respuesta del servidor.
+      if (error instanceof TypeError) {
+        throw new NetworkError(url, error.cause ?? error);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { messages } from '../i18n/index.js';
+
+/**
+ * Errores del cliente de la API de Legal Assistant RAG. Cada respuesta no
+ * satisfactoria del backend se traduce a una de estas clases según su código.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: string,
+    message = `${status} - ${body}`,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ValidationError extends ApiError {}
+
+export class AuthError extends ApiError {}
+
+export class NotFoundError extends ApiError {}
+
+export class ConflictError extends ApiError {}
+
+/** El backend no respondió: fallo de red, DNS, conexión rechazada, etc. */
+export class NetworkError extends ApiError {
+  constructor(readonly url: string, cause: unknown) {
+    super(0, '', messages().api.networkError(url, cause instanceof Error ? cause.message : String(cause)));
+    this.cause = cause;
+  }
+}
+
+/** Evento `error` recibido dentro de un stream SSE que había empezado con 200. */
+export class StreamError extends ApiError {
+  constructor(data: string) {
+    super(200, data, streamErrorMessage(data));
+  }
+}
+
+function streamErrorMessage(data: string): string {
+  try {
+    const parsed = JSON.parse(data);
+    return parsed.message || parsed.error || data;
+  } catch {
+    return data || messages().api.streamErrorWithoutDetails;
+  }
+}
+
+export function errorFromResponse(status: number, body: string): ApiError {
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(status, body);
+    case 401:
+    case 403:
+      return new AuthError(status, body);
+    case 404:
+      return new NotFoundError(status, body);
+    case 409:
+      return new ConflictError(status, body);
+    default:
+      return new ApiError(status, body);
+  }
+}
@@ -0,0 +1,51 @@
+export const CASE_STATUSES = ['Open', 'Closed', 'Pending'] as const;
+
+export type CaseStatus = typeof CASE_STATUSES[number];
+
+export interface Client {
+  id: number;
+  idUser?: string;
+  name: string;
+  contactInformation: string;
+  address?: string;
+  notes?: string;
+}
+
+export interface ClientInput {
+  idUser: string;
+  name: string;
+  contactInformation: string;
+  address?: string;
+  notes?: string;
+}
+
+export interface Case {
+  id: number;
+  title: string;
+  description?: string;
+  status: CaseStatus;
+  courtDate?: string;
+  clientId: number;
+  assignedUserId?: string | number;
+  documents?: Document[];
+}
+
+export interface CaseInput {
+  title: string;
+  description?: string;
+  status: CaseStatus;
+  courtDate?: string;
+  clientId: number;
+  assignedUserId: string | number;
+}
+
+export interface Document {
+  id: number;
+  name: string;
+  scrapedAt?: string;
+}
+
+export interface AskRequest {
+  message: string;
+  fileId: number;
+}
@@ -0,0 +1,267 @@
+import { existsSync, readFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import dotenv from 'dotenv';
+import { z } from 'zod';
+import { en } from './i18n/en.js';
+import { Messages, es } from './i18n/es.js';
+import { LOCALES, Locale, parseLocale } from './i18n/locales.js';
+import { HOLIDAY_CALENDAR_CODES } from './utils/holidays.js';
+
+/** Fichero de configuración que se lee si existe y no se indica otro en LAR_CONFIG_FILE. */
+const DEFAULT_CONFIG_FILE = 'lar-mcp.config.json';
+
+/**
+ * Variable de entorno de cada opción, por su ruta en la configuración. Las
+ * variables de entorno (y las de .env) tienen prioridad sobre el fichero.
+ */
+const ENV_VARIABLES: Record<string, string> = {
+  'transport': 'MCP_TRANSPORT',
+  'locale': 'LAR_LOCALE',
+  'http.host': 'LAR_HTTP_HOST',
+  'http.port': 'LAR_HTTP_PORT',
+  'http.publicUrl': 'LAR_PUBLIC_URL',
+  'http.sessionIdleMinutes': 'LAR_SESSION_IDLE_MINUTES',
+  'backend.url': 'API_URL',
+  'backend.email': 'API_EMAIL',
+  'backend.password': 'API_PASSWORD',
+  'backend.usersFile': 'LAR_BACKEND_USERS_FILE',
+  'backend.forwardTokens': 'LAR_FORWARD_BACKEND_TOKEN',
+  'backend.sharedAccount': 'LAR_SHARED_BACKEND_ACCOUNT',
+  'auth.mode': 'LAR_HTTP_AUTH',
+  'auth.apiKeys': 'LAR_API_KEYS',
+  'auth.oauth.issuer': 'LAR_OAUTH_ISSUER',
+  'auth.oauth.introspectionUrl': 'LAR_OAUTH_INTROSPECTION_URL',
+  'auth.oauth.clientId': 'LAR_OAUTH_CLIENT_ID',
+  'auth.oauth.clientSecret': 'LAR_OAUTH_CLIENT_SECRET',
+  'auth.oauth.resource': 'LAR_OAUTH_RESOURCE',
+  'auth.oauth.requiredScopes': 'LAR_OAUTH_REQUIRED_SCOPES',
+  'dataDir': 'LAR_DATA_DIR',
+  'upload.dirs': 'LAR_UPLOAD_DIRS',
+  'fetch.allowedHosts': 'LAR_FETCH_ALLOWED_HOSTS',
+  'fetch.allowPrivateAddresses': 'LAR_FETCH_ALLOW_PRIVATE',
+  'fetch.maxBytes': 'LAR_FETCH_MAX_BYTES',
+  'fetch.connectTimeoutMs': 'LAR_FETCH_CONNECT_TIMEOUT_MS',
+  'fetch.readTimeoutMs': 'LAR_FETCH_READ_TIMEOUT_MS',
+  'fetch.maxRedirects': 'LAR_FETCH_MAX_REDIRECTS',
+  'caseDocuments.store': 'LAR_CASE_DOCUMENTS_STORE',
+  'documents.askMaxDocuments': 'LAR_ASK_MAX_DOCUMENTS',
+  'deadlines.calendars': 'LAR_HOLIDAY_CALENDARS',
+  'deadlines.extraHolidays': 'LAR_EXTRA_HOLIDAYS',
+  'deadlines.augustNonWorking': 'LAR_AUGUST_NON_WORKING',
+  'cases.pendingThresholdDays': 'LAR_PENDING_THRESHOLD_DAYS',
+  'confirmations.ttlSeconds': 'LAR_CONFIRMATION_TTL_SECONDS',
+  'audit.databaseUrl': 'LAR_AUDIT_DATABASE_URL',
+};
+
+/** Las variables de entorno son texto: "true"/"false" y listas separadas por comas. */
+const flag = z.union([z.boolean(), z.enum(['true', 'false']).transform(value => value === 'true')]);
+
+function list(separator: string | RegExp = ',') {
+  return z.union([
+    z.array(z.string()),
+    z.string().transform(value => value.split(separator))
+  ]).transform(items => items.map(item => item.trim()).filter(Boolean));
+}
+
+const integer = (min: number, max = Number.MAX_SAFE_INTEGER) => z.coerce.number().int().min(min).max(max);
+
+const url = z.string().url();
+
+type ConfigMessages = Messages['config'];
+
+/**
+ * Los mensajes de configuración no pueden usar messages(), que depende de la
+ * configuración ya cargada, así que se toman del catálogo directamente.
+ */
+function configMessages(locale: Locale): ConfigMessages {
+  return (locale === 'en' ? en : es).config;
+}
+
+const apiKeySchema = (t: ConfigMessages) => z.string().transform((entry, ctx) => {
+  const separator = entry.lastIndexOf(':');
+  // El hash puede llevar delante el prefijo "sha256:".
+  const id = entry.slice(0, separator).replace(/(^|:)\s*sha256\s*$/i, '').trim();
+  const hash = entry.slice(separator + 1).trim().toLowerCase();
+  if (separator <= 0 || !id || !/^[0-9a-f]{64}$/.test(hash)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: t.invalidApiKey(entry) });
+    return z.NEVER;
+  }
+  return { id, hash };
+});
+
+const configSchema = (t: ConfigMessages) => z.object({
+  transport: z.enum(['stdio', 'http']).default('http'),
+  /** Idioma de los mensajes si la petición no indica otro; admite etiquetas como "en-US". */
+  locale: z.preprocess(value => parseLocale(value) ?? value, z.enum(LOCALES)).default('es'),
+  http: z.object({
+    host: z.string().min(1).default('0.0.0.0'),
+    port: integer(1, 65535).default(8080),
+    /** URL pública del servidor; por defecto, http://localhost:<puerto>. */
+    publicUrl: url.optional(),
+    sessionIdleMinutes: z.coerce.number().positive().default(30),
+  }).default({}),
+  backend: z.object({
+    url: url.default('http://localhost:3000').transform(value => value.replace(/\/+$/, '')),
+    email: z.string().min(1).optional(),
+    password: z.string().min(1).optional(),
+    usersFile: z.string().min(1).optional(),
+    forwardTokens: flag.default(true),
+    sharedAccount: flag.default(false),
+  }).default({}),
+  auth: z.object({
+    mode: z.enum(['required', 'none']).default('required'),
+    apiKeys: list().pipe(z.array(apiKeySchema(t))).default([]),
+    oauth: z.object({
+      issuer: url.optional(),
+      introspectionUrl: url.optional(),
+      clientId: z.string().optional(),
+      clientSecret: z.string().optional(),
+      resource: z.string().optional(),
+      requiredScopes: list(/\s+/).default([]),
+    }).default({}),
+  }).default({}),
+  dataDir: z.string().min(1).default(path.join(os.homedir(), '.lar-mcp')).transform(dir => path.resolve(dir)),
+  upload: z.object({
+    dirs: list(path.delimiter).default([]),
+  }).default({}),
+  fetch: z.object({
+    allowedHosts: list().transform(hosts => hosts.map(host => host.toLowerCase())).default([]),
+    allowPrivateAddresses: flag.default(false),
+    maxBytes: integer(1).default(25 * 1024 * 1024),
+    connectTimeoutMs: integer(1).default(10_000),
+    readTimeoutMs: integer(1).default(30_000),
+    maxRedirects: integer(0, 20).default(5),
+  }).default({}),
+  caseDocuments: z.object({
+    store: z.enum(['local', 'backend']).default('local'),
+  }).default({}),
+  documents: z.object({
+    /** Documentos que puede consultar una sola llamada a lar-ask-documents. */
+    askMaxDocuments: integer(1, 100).default(20),
+  }).default({}),
+  deadlines: z.object({
+    calendars: list().pipe(z.array(z.enum(HOLIDAY_CALENDAR_CODES)).min(1)).default(['ES']),
+    extraHolidays: list().pipe(z.array(z.string().regex(/^(\d{4}-)?\d{2}-\d{2}$/, t.invalidHoliday))).default([]),
+    augustNonWorking: flag.default(false),
+  }).default({}),
+  cases: z.object({
+    pendingThresholdDays: integer(1).default(30),
+  }).default({}),
+  confirmations: z.object({
+    ttlSeconds: integer(1).default(300),
+  }).default({}),
+  audit: z.object({
+    databaseUrl: z.string().min(1).optional(),
+  }).default({}),
+}).superRefine((config, ctx) => {
+  const needsAccount = config.transport === 'stdio' || config.backend.sharedAccount;
+  if (needsAccount && (!config.backend.email || !config.backend.password)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['backend', config.backend.email ? 'password' : 'email'],
+      message: config.transport === 'stdio' ? t.stdioNeedsAccount : t.sharedAccountNeedsCredentials
+    });
+  }
+  const { issuer, introspectionUrl } = config.auth.oauth;
+  if (Boolean(issuer) !== Boolean(introspectionUrl)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['auth', 'oauth', issuer ? 'introspectionUrl' : 'issuer'],
+      message: t.oauthNeedsBoth
+    });
+  }
+  if (config.transport === 'http' && config.auth.mode === 'required' && config.auth.apiKeys.length === 0 && !issuer) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['auth', 'apiKeys'],
+      message: t.httpNeedsAuth
+    });
+  }
+});
+
+export type Config = z.infer<ReturnType<typeof configSchema>>;
+
+/**
+ * La configuración no es válida; el mensaje enumera todos los problemas. Sin
+ * idioma se usa el configurado, o español si la configuración no se cargó.
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[], locale: Locale = config?.locale ?? 'es') {
+    super(`${configMessages(locale).invalid}\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+function readConfigFile(locale: Locale): { file?: string; values: Record<string, unknown> } {
+  const t = configMessages(locale);
+  const file = process.env.LAR_CONFIG_FILE || (existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+  if (!file) {
+    return { values: {} };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new ConfigError([t.unreadableFile(file, error instanceof Error ? error.message : String(error))], locale);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigError([t.fileNotObject(file)], locale);
+  }
+  return { file, values: parsed as Record<string, unknown> };
+}
+
+function setPath(target: Record<string, unknown>, keys: string[], value: unknown): void {
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof node[key] !== 'object' || node[key] === null) {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Carga la configuración: valores por defecto, el fichero de configuración
+ * (LAR_CONFIG_FILE o lar-mcp.config.json), .env y las variables de entorno,
+ * de menor a mayor prioridad. Si algo no es válido lanza ConfigError con
+ * todos los problemas encontrados, no solo el primero.
+ */
+export function loadConfig(): Config {
+  // quiet: en modo stdio cualquier salida por stdout rompe el protocolo.
+  dotenv.config({ quiet: true });
+
+  // Los problemas se describen en el idioma pedido, si es válido, antes de validar el resto.
+  const locale = parseLocale(process.env[ENV_VARIABLES.locale]) ?? 'es';
+  const { file, values } = readConfigFile(locale);
+  const raw = structuredClone(values);
+  for (const [configPath, variable] of Object.entries(ENV_VARIABLES)) {
+    const value = process.env[variable];
+    if (value !== undefined && value !== '') {
+      setPath(raw, configPath.split('.'), value);
+    }
+  }
+
+  const issueLocale = parseLocale(raw.locale) ?? locale;
+  const t = configMessages(issueLocale);
+  const result = configSchema(t).safeParse(raw);
+  if (!result.success) {
+    throw new ConfigError(result.error.issues.map(issue => {
+      const configPath = issue.path.filter(key => typeof key === 'string').join('.');
+      const variable = ENV_VARIABLES[configPath];
+      const source = [variable, file ? t.fileEntry(configPath, file) : undefined].filter(Boolean).join(t.or);
+      return `${source || configPath || t.configuration}: ${issue.message}`;
+    }), issueLocale);
+  }
+  return result.data;
+}
+
+let config: Config | undefined;
+
+/** Configuración del servidor, cargada y validada la primera vez que se pide. */
+export function getConfig(): Config {
+  config ??= loadConfig();
+  return config;
+}
@@ -0,0 +1,262 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { RequestHandler } from 'express';
+import { InvalidTokenError, ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { Config, ConfigError } from '../config.js';
+import { messages } from '../i18n/index.js';
+
+/** Las claves de API no caducan, pero el middleware exige una fecha de expiración. */
+const API_KEY_SESSION_SECONDS = 60 * 60;
+/** Tiempo máximo que se reutiliza una introspección de token. */
+const INTROSPECTION_CACHE_MS = 60 * 1000;
+/** Tokens distintos que se guardan como mucho en la caché de introspección. */
+const INTROSPECTION_CACHE_SIZE = 1000;
+
+export interface ApiKeyEntry {
+  /** Identificador del titular de la clave; es el clientId de las llamadas. */
+  id: string;
+  /** SHA-256 de la clave en hexadecimal. */
+  hash: string;
+}
+
+export interface OAuthSettings {
+  issuer: string;
+  introspectionUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+  /** Identificador de este servidor como recurso protegido (RFC 8707); por defecto, la URL pública de /mcp. */
+  resource?: string;
+  requiredScopes: string[];
+}
+
+export interface HttpAuthSettings {
+  disabled: boolean;
+  apiKeys: ApiKeyEntry[];
+  oauth?: OAuthSettings;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Configuración de la autenticación HTTP:
+ * - LAR_API_KEYS: pares id:sha256 separados por comas.
+ * - LAR_OAUTH_ISSUER y LAR_OAUTH_INTROSPECTION_URL (más LAR_OAUTH_CLIENT_ID,
+ *   LAR_OAUTH_CLIENT_SECRET, LAR_OAUTH_RESOURCE y LAR_OAUTH_REQUIRED_SCOPES)
+ *   para aceptar tokens de un servidor de autorización OAuth.
+ * - LAR_HTTP_AUTH=none desactiva la autenticación de forma explícita.
+ */
+export function getHttpAuthSettings({ auth }: Config): HttpAuthSettings {
+  const { issuer, introspectionUrl, ...oauth } = auth.oauth;
+  return {
+    disabled: auth.mode === 'none',
+    apiKeys: auth.apiKeys,
+    oauth: issuer && introspectionUrl ? { issuer, introspectionUrl, ...oauth } : undefined
+  };
+}
+
+class ApiKeyVerifier {
+  private readonly keys: { id: string; hash: Buffer }[];
+
+  /** Las claves dan acceso completo, así que llevan los scopes que se exijan a OAuth. */
+  constructor(entries: ApiKeyEntry[], private readonly scopes: string[]) {
+    this.keys = entries.map(entry => ({ id: entry.id, hash: Buffer.from(entry.hash, 'hex') }));
+  }
+
+  /** Compara en tiempo constante con todas las claves para no filtrar cuál coincide. */
+  verify(token: string): AuthInfo | undefined {
+    const hash = createHash('sha256').update(token).digest();
+    let match: string | undefined;
+    for (const key of this.keys) {
+      if (timingSafeEqual(hash, key.hash)) {
+        match ??= key.id;
+      }
+    }
+    if (!match) {
+      return undefined;
+    }
+    return {
+      token,
+      clientId: match,
+      scopes: this.scopes,
+      expiresAt: Math.floor(Date.now() / 1000) + API_KEY_SESSION_SECONDS,
+      extra: { method: 'api-key' }
+    };
+  }
+}
+
+interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  exp?: number;
+  aud?: string | string[];
+  iss?: string;
+  sub?: string;
+  username?: string;
+}
+
+/** Valida tokens de acceso con el endpoint de introspección del servidor de autorización (RFC 7662). */
+class IntrospectionVerifier {
+  private readonly cache = new Map<string, { info: AuthInfo; until: number }>();
+
+  /** `resource` es el identificador de este servidor, que el token debe incluir en su audiencia. */
+  constructor(private readonly settings: OAuthSettings, private readonly resource: string) {}
+
+  async verify(token: string): Promise<AuthInfo> {
+    const cached = this.cache.get(token);
+    if (cached && cached.until > Date.now()) {
+      return cached.info;
+    }
+    this.cache.delete(token);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json'
+    };
+    if (this.settings.clientId) {
+      const credentials = `${encodeURIComponent(this.settings.clientId)}:${encodeURIComponent(this.settings.clientSecret ?? '')}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const t = messages().http;
+    let body: IntrospectionResponse;
+    try {
+      const response = await fetch(this.settings.introspectionUrl, {
+        method: 'POST',
+        headers,
+        body: new URLSearchParams({ token, token_type_hint: 'access_token' })
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      body = await response.json() as IntrospectionResponse;
+    } catch (error) {
+      throw new ServerError(t.introspectionFailed(error instanceof Error ? error.message : String(error)));
+    }
+
+    if (!body.active) {
+      throw new InvalidTokenError(t.inactiveToken);
+    }
+    if (body.iss && body.iss.replace(/\/$/, '') !== this.settings.issuer.replace(/\/$/, '')) {
+      throw new InvalidTokenError(t.otherIssuer);
+    }
+    const audiences = Array.isArray(body.aud) ? body.aud : body.aud ? [body.aud] : [];
+    if (!audiences.some(audience => audience.replace(/\/$/, '') === this.resource.replace(/\/$/, ''))) {
+      throw new InvalidTokenError(t.otherAudience);
+    }
+    // Sin titular no se podría atribuir la llamada en la auditoría ni aislar sus sesiones.
+    const clientId = body.client_id ?? body.sub;
+    if (!clientId) {
+      throw new InvalidTokenError(t.anonymousToken);
+    }
+
+    const info: AuthInfo = {
+      token,
+      clientId,
+      scopes: (body.scope ?? '').split(' ').filter(Boolean),
+      expiresAt: body.exp,
+      extra: { method: 'oauth', subject: body.sub, username: body.username }
+    };
+    const until = Math.min(Date.now() + INTROSPECTION_CACHE_MS, (body.exp ?? Infinity) * 1000);
+    this.remember(token, { info, until });
+    return info;
+  }
+
+  /** Descarta las entradas caducadas y, si sigue llena, las más antiguas. */
+  private remember(token: string, entry: { info: AuthInfo; until: number }): void {
+    const now = Date.now();
+    for (const [key, cached] of this.cache) {
+      if (cached.until <= now) {
+        this.cache.delete(key);
+      }
+    }
+    for (const key of this.cache.keys()) {
+      if (this.cache.size < INTROSPECTION_CACHE_SIZE) {
+        break;
+      }
+      this.cache.delete(key);
+    }
+    this.cache.set(token, entry);
+  }
+}
+
+/** Prueba primero las claves de API y después, si está configurado, OAuth. */
+class HttpTokenVerifier implements OAuthTokenVerifier {
+  private readonly apiKeys: ApiKeyVerifier;
+  private readonly oauth?: IntrospectionVerifier;
+
+  constructor(settings: HttpAuthSettings, resource: string) {
+    this.apiKeys = new ApiKeyVerifier(settings.apiKeys, settings.oauth?.requiredScopes ?? []);
+    this.oauth = settings.oauth ? new IntrospectionVerifier(settings.oauth, resource) : undefined;
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const apiKey = this.apiKeys.verify(token);
+    if (apiKey) {
+      return apiKey;
+    }
+    if (this.oauth) {
+      return this.oauth.verify(token);
+    }
+    throw new InvalidTokenError(messages().http.invalidApiKey);
+  }
+}
+
+/** Acepta la clave de API también en la cabecera X-API-Key. */
+const apiKeyHeader: RequestHandler = (req, _res, next) => {
+  const apiKey = req.headers['x-api-key'];
+  if (!req.headers.authorization && typeof apiKey === 'string' && apiKey) {
+    req.headers.authorization = `Bearer ${apiKey}`;
+  }
+  next();
+};
+
+export interface HttpAuth {
+  /** Middleware para /mcp; vacío si la autenticación está desactivada. */
+  middleware: RequestHandler[];
+  /** Metadatos de recurso protegido (RFC 9728), solo con OAuth. */
+  resourceMetadata?: Record<string, unknown>;
+}
+
+/**
+ * Autenticación del endpoint /mcp. Las peticiones sin credenciales válidas se
+ * rechazan con 401 antes de crear el transporte. Sin claves ni OAuth
+ * configurados el servidor no arranca, salvo con LAR_HTTP_AUTH=none.
+ */
+export function createHttpAuth(settings: HttpAuthSettings, publicUrl: string): HttpAuth {
+  if (settings.disabled) {
+    return { middleware: [] };
+  }
+  if (settings.apiKeys.length === 0 && !settings.oauth) {
+    throw new ConfigError([messages().config.httpNeedsAuth]);
+  }
+
+  const resource = settings.oauth?.resource ?? new URL('/mcp', publicUrl).href;
+  const resourceMetadataUrl = settings.oauth
+    ? new URL('/.well-known/oauth-protected-resource/mcp', publicUrl).href
+    : undefined;
+
+  return {
+    middleware: [
+      apiKeyHeader,
+      requireBearerAuth({
+        verifier: new HttpTokenVerifier(settings, resource),
+        requiredScopes: settings.oauth?.requiredScopes,
+        resourceMetadataUrl
+      })
+    ],
+    resourceMetadata: settings.oauth
+      ? {
+          resource,
+          authorization_servers: [settings.oauth.issuer],
+          scopes_supported: settings.oauth.requiredScopes,
+          bearer_methods_supported: ['header'],
+          resource_name: 'Legal Assistant RAG MCP'
+        }
+      : undefined
+  };
+}
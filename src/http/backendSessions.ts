@@ -0,0 +1,167 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { Request } from 'express';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { Config, ConfigError } from '../config.js';
+import { messages } from '../i18n/index.js';
+import { Credentials, getCredentials } from '../utils/login.js';
+import { BackendSession, ForwardedTokenSession } from '../utils/session.js';
+
+/** Cabecera con la que el cliente MCP reenvía su propio JWT del backend. */
+export const BACKEND_TOKEN_HEADER = 'x-lar-backend-token';
+
+export interface BackendUserCredentials {
+  email: string;
+  password: string;
+}
+
+export interface BackendSessionSettings {
+  apiUrl: string;
+  forwardTokens: boolean;
+  /** Credenciales del backend de cada usuario MCP, por su identificador. */
+  users: Map<string, BackendUserCredentials>;
+  /** Usar la cuenta de API_EMAIL/API_PASSWORD para quien no tenga otra. */
+  sharedAccount: boolean;
+  /** Tiempo sin uso tras el que se descarta la sesión (y su token) de un usuario. */
+  idleMs: number;
+}
+
+/** La petición no trae ninguna identidad del backend con la que trabajar. */
+export class BackendIdentityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackendIdentityError';
+  }
+}
+
+function loadUsers(file: string): Map<string, BackendUserCredentials> {
+  const t = messages().config;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new ConfigError([t.unreadableUsersFile(file, error instanceof Error ? error.message : String(error))]);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigError([t.usersFileNotObject]);
+  }
+
+  const users = new Map<string, BackendUserCredentials>();
+  const problems: string[] = [];
+  for (const [id, value] of Object.entries(parsed)) {
+    const { email, password } = (value ?? {}) as Partial<BackendUserCredentials>;
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      problems.push(t.userWithoutCredentials(id));
+      continue;
+    }
+    users.set(id, { email, password });
+  }
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return users;
+}
+
+/**
+ * Identidad del backend en modo HTTP:
+ * - LAR_FORWARD_BACKEND_TOKEN=false deja de aceptar la cabecera X-LAR-Backend-Token.
+ * - LAR_BACKEND_USERS_FILE: JSON con las credenciales del backend de cada usuario MCP.
+ * - LAR_SHARED_BACKEND_ACCOUNT=true usa API_EMAIL/API_PASSWORD para el resto.
+ * - LAR_SESSION_IDLE_MINUTES: tras ese tiempo sin uso se descarta la sesión del usuario.
+ */
+export function getBackendSessionSettings({ backend, http }: Config): BackendSessionSettings {
+  return {
+    apiUrl: backend.url,
+    forwardTokens: backend.forwardTokens,
+    users: backend.usersFile ? loadUsers(backend.usersFile) : new Map(),
+    sharedAccount: backend.sharedAccount,
+    idleMs: http.sessionIdleMinutes * 60 * 1000
+  };
+}
+
+/** Usuario que hace la llamada: el titular del token OAuth o el de la clave de API. */
+export function callerId(authInfo: AuthInfo | undefined): string | undefined {
+  const extra = authInfo?.extra ?? {};
+  const person = extra.username ?? extra.subject;
+  return typeof person === 'string' && person ? person : authInfo?.clientId;
+}
+
+/**
+ * Sesiones del backend de cada usuario en modo HTTP. Cada usuario tiene su
+ * propia BackendSession, de modo que los tokens e IDs de usuario en caché
+ * nunca se comparten entre usuarios.
+ */
+export class BackendSessionRegistry {
+  private readonly sessions = new Map<string, { session: BackendSession; lastUsed: number }>();
+  private readonly requestSession = new AsyncLocalStorage<BackendSession>();
+  private shared?: BackendSession;
+
+  constructor(private readonly settings: BackendSessionSettings) {}
+
+  /**
+   * Atiende la petición con su identidad del backend. Se resuelve en cada
+   * petición, no al abrir la sesión MCP, para que un X-LAR-Backend-Token
+   * renovado sustituya al que caduca.
+   */
+  run<T>(req: Request & { auth?: AuthInfo }, handle: () => T): T {
+    return this.requestSession.run(this.resolve(req), handle);
+  }
+
+  /** Sesión del backend de la petición que se está atendiendo. */
+  current(): BackendSession {
+    const session = this.requestSession.getStore();
+    if (!session) {
+      throw new BackendIdentityError(messages().http.sendBackendToken);
+    }
+    return session;
+  }
+
+  /**
+   * Por orden: el JWT reenviado en X-LAR-Backend-Token, las credenciales
+   * configuradas para el usuario MCP y, si se permite, la cuenta compartida.
+   */
+  resolve(req: Request & { auth?: AuthInfo }): BackendSession {
+    this.sweep();
+
+    const forwarded = req.headers[BACKEND_TOKEN_HEADER];
+    if (typeof forwarded === 'string' && forwarded.trim()) {
+      if (!this.settings.forwardTokens) {
+        throw new BackendIdentityError(messages().http.forwardedTokensDisabled);
+      }
+      const token = forwarded.trim().replace(/^Bearer\s+/i, '');
+      const key = `token:${createHash('sha256').update(token).digest('hex')}`;
+      return this.get(key, () => new ForwardedTokenSession(token, this.settings.apiUrl));
+    }
+
+    const caller = callerId(req.auth);
+    const credentials = caller !== undefined ? this.settings.users.get(caller) : undefined;
+    if (caller !== undefined && credentials) {
+      const loadCredentials = (): Credentials => ({ apiUrl: this.settings.apiUrl, ...credentials });
+      return this.get(`user:${caller}`, () => new BackendSession(loadCredentials));
+    }
+
+    if (this.settings.sharedAccount) {
+      this.shared ??= new BackendSession(getCredentials);
+      return this.shared;
+    }
+    const t = messages().http;
+    throw new BackendIdentityError(caller !== undefined ? t.noBackendCredentials(caller) : t.sendBackendToken);
+  }
+
+  private get(key: string, create: () => BackendSession): BackendSession {
+    const entry = this.sessions.get(key) ?? { session: create(), lastUsed: 0 };
+    entry.lastUsed = Date.now();
+    this.sessions.set(key, entry);
+    return entry.session;
+  }
+
+  private sweep(): void {
+    const limit = Date.now() - this.settings.idleMs;
+    for (const [key, entry] of this.sessions) {
+      if (entry.lastUsed < limit) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/** Eventos que se guardan de cada stream para reanudarlo. */
+const MAX_EVENTS_PER_STREAM = 500;
+/** Streams de una sesión que se conservan; se descartan primero los más antiguos. */
+const MAX_STREAMS = 100;
+
+/**
+ * Eventos enviados por los streams SSE de una sesión, para que un cliente que
+ * pierde la conexión pueda reanudarla con Last-Event-ID sin perder mensajes.
+ * Vive en memoria y se descarta con la sesión.
+ */
+export class MemoryEventStore implements EventStore {
+  private readonly streams = new Map<StreamId, { nextId: number; events: { id: number; message: JSONRPCMessage }[] }>();
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    let stream = this.streams.get(streamId);
+    if (!stream) {
+      stream = { nextId: 1, events: [] };
+      this.streams.set(streamId, stream);
+      if (this.streams.size > MAX_STREAMS) {
+        this.streams.delete(this.streams.keys().next().value!);
+      }
+    }
+
+    const id = stream.nextId++;
+    stream.events.push({ id, message });
+    if (stream.events.length > MAX_EVENTS_PER_STREAM) {
+      stream.events.shift();
+    }
+    return `${streamId}:${id}`;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    const streamId = eventId.slice(0, eventId.lastIndexOf(':'));
+    return this.streams.has(streamId) ? streamId : undefined;
+  }
+
+  async replayEventsAfter(lastEventId: EventId, { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }): Promise<StreamId> {
+    const separator = lastEventId.lastIndexOf(':');
+    const streamId = lastEventId.slice(0, separator);
+    const lastId = Number(lastEventId.slice(separator + 1));
+    const stream = this.streams.get(streamId);
+    if (separator <= 0 || !stream || !Number.isInteger(lastId)) {
+      return '';
+    }
+
+    for (const event of stream.events) {
+      if (event.id > lastId) {
+        await send(`${streamId}:${event.id}`, event.message);
+      }
+    }
+    return streamId;
+  }
+}
@@ -0,0 +1,240 @@
+import { randomUUID } from 'node:crypto';
+import type { ErrorRequestHandler, Request, Response } from 'express';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { getConfig } from '../config.js';
+import { localeFromAcceptLanguage, localizeRequests, messages } from '../i18n/index.js';
+import { BackendIdentityError, callerId } from './backendSessions.js';
+import { MemoryEventStore } from './eventStore.js';
+
+/** Cada cuánto se buscan sesiones inactivas. */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+type McpRequest = Request & { auth?: AuthInfo };
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  /** Usuario que abrió la sesión; solo él puede seguir usándola. */
+  owner?: string;
+  lastActivity: number;
+  /** Respuestas aún abiertas: streams GET y llamadas en curso. */
+  openResponses: number;
+}
+
+/** Atiende una petición dentro de su contexto, como la identidad del backend del usuario. */
+export type RequestScope = (req: McpRequest, handle: () => Promise<void>) => Promise<void>;
+
+/** Minutos sin peticiones tras los que se cierra una sesión (LAR_SESSION_IDLE_MINUTES). */
+export function getSessionIdleMs(): number {
+  return getConfig().http.sessionIdleMinutes * 60 * 1000;
+}
+
+function sendJsonRpcError(req: Request, res: Response, status: number, code: number, message: string): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: req.body && req.body.id ? req.body.id : null
+  });
+}
+
+/** Margen para el sobre JSON-RPC sobre el contenido en base64 de un documento. */
+const BODY_ENVELOPE_BYTES = 1024 * 1024;
+
+/**
+ * Tamaño máximo del cuerpo JSON: un documento de LAR_FETCH_MAX_BYTES
+ * codificado en base64, que ocupa 4/3 de su tamaño, más el sobre.
+ */
+export function getJsonBodyLimit(): number {
+  return Math.ceil(getConfig().fetch.maxBytes / 3) * 4 + BODY_ENVELOPE_BYTES;
+}
+
+/**
+ * Errores de express.json() como respuestas JSON-RPC en lugar de la página
+ * HTML por defecto. Se ejecuta antes que acceptLanguage, así que lee el
+ * idioma de la cabecera directamente.
+ */
+export const handleBodyError: ErrorRequestHandler = (error, req, res, next) => {
+  const t = messages(localeFromAcceptLanguage(req.headers['accept-language'])).http;
+  switch (error?.type) {
+    case 'entity.too.large':
+      return sendJsonRpcError(req, res, 413, -32600, t.bodyTooLarge((error.limit / (1024 * 1024)).toFixed(1)));
+    case 'entity.parse.failed':
+      return sendJsonRpcError(req, res, 400, -32700, t.invalidJson);
+    default:
+      if (typeof error?.status === 'number' && error.status >= 400 && error.status < 500) {
+        return sendJsonRpcError(req, res, error.status, -32600, t.invalidBody);
+      }
+      next(error);
+  }
+};
+
+/**
+ * Sesiones MCP en modo HTTP. Cada sesión tiene su propio McpServer y
+ * transporte, creados al inicializarla con la identidad del backend del
+ * usuario, de modo que las peticiones concurrentes de distintas sesiones no
+ * comparten estado. Admite Streamable HTTP en /mcp (POST, GET y DELETE) y el
+ * transporte SSE antiguo en /sse y /messages.
+ */
+export class McpSessionManager {
+  private readonly sessions = new Map<string, McpSession>();
+  private readonly sweeper: NodeJS.Timeout;
+
+  constructor(
+    private readonly createSessionServer: (req: McpRequest) => McpServer,
+    private readonly scope: RequestScope = (_req, handle) => handle(),
+    private readonly idleMs: number = getSessionIdleMs()
+  ) {
+    this.sweeper = setInterval(() => this.closeIdle(), Math.min(SWEEP_INTERVAL_MS, idleMs));
+    this.sweeper.unref();
+  }
+
+  /** POST, GET y DELETE en /mcp. */
+  handleStreamable = async (req: McpRequest, res: Response): Promise<void> => {
+    try {
+      const t = messages().http;
+      const sessionId = req.headers['mcp-session-id'];
+      if (typeof sessionId === 'string') {
+        const session = this.find(sessionId, req);
+        if (!session) {
+          return sendJsonRpcError(req, res, 404, -32001, t.sessionNotFound);
+        }
+        const transport = session.transport;
+        if (!(transport instanceof StreamableHTTPServerTransport)) {
+          return sendJsonRpcError(req, res, 400, -32000, t.sseSession);
+        }
+        this.track(session, res);
+        await this.scope(req, () => transport.handleRequest(req, res, req.body));
+        return;
+      }
+
+      if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+        return sendJsonRpcError(req, res, 400, -32000, t.missingSessionId);
+      }
+
+      const server = this.createSessionServer(req);
+      const owner = callerId(req.auth);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: new MemoryEventStore(),
+        onsessioninitialized: id => {
+          this.sessions.set(id, { transport, server, owner, lastActivity: Date.now(), openResponses: 0 });
+        },
+        onsessionclosed: id => {
+          this.remove(id);
+        }
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          this.remove(transport.sessionId);
+        }
+      };
+
+      await server.connect(transport);
+      localizeRequests(transport);
+      await this.scope(req, () => transport.handleRequest(req, res, req.body));
+    } catch (error) {
+      this.handleError(req, res, error);
+    }
+  };
+
+  /** GET /sse: abre una sesión con el transporte SSE antiguo. */
+  openSse = async (req: McpRequest, res: Response): Promise<void> => {
+    try {
+      const server = this.createSessionServer(req);
+      const transport = new SSEServerTransport('/messages', res);
+      const session: McpSession = { transport, server, owner: callerId(req.auth), lastActivity: Date.now(), openResponses: 0 };
+      this.sessions.set(transport.sessionId, session);
+      this.track(session, res);
+      res.on('close', () => {
+        this.remove(transport.sessionId);
+      });
+      await this.scope(req, async () => {
+        await server.connect(transport);
+        localizeRequests(transport);
+      });
+    } catch (error) {
+      this.handleError(req, res, error);
+    }
+  };
+
+  /** POST /messages?sessionId=...: mensajes de una sesión SSE. */
+  postSseMessage = async (req: McpRequest, res: Response): Promise<void> => {
+    try {
+      const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : '';
+      const session = this.find(sessionId, req);
+      const transport = session?.transport;
+      if (!session || !(transport instanceof SSEServerTransport)) {
+        return sendJsonRpcError(req, res, 404, -32001, messages().http.sseSessionNotFound);
+      }
+      this.track(session, res);
+      await this.scope(req, () => transport.handlePostMessage(req, res, req.body));
+    } catch (error) {
+      this.handleError(req, res, error);
+    }
+  };
+
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweeper);
+    await Promise.all([...this.sessions.keys()].map(id => this.remove(id)));
+  }
+
+  /** Una sesión ajena se trata igual que una inexistente, para no revelar que existe. */
+  private find(sessionId: string, req: McpRequest): McpSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.owner !== callerId(req.auth)) {
+      return undefined;
+    }
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  /**
+   * La sesión cuenta como activa mientras la respuesta siga abierta, como un
+   * stream GET o una llamada larga, y su inactividad se mide desde que acaba.
+   */
+  private track(session: McpSession, res: Response): void {
+    session.openResponses += 1;
+    res.once('close', () => {
+      session.openResponses -= 1;
+      session.lastActivity = Date.now();
+    });
+  }
+
+  private async remove(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`Error al cerrar la sesión MCP ${sessionId}:`, error);
+    }
+  }
+
+  private closeIdle(): void {
+    const limit = Date.now() - this.idleMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.openResponses === 0 && session.lastActivity < limit) {
+        void this.remove(sessionId);
+      }
+    }
+  }
+
+  private handleError(req: Request, res: Response, error: unknown): void {
+    if (error instanceof BackendIdentityError) {
+      sendJsonRpcError(req, res, 403, -32001, error.message);
+    } else {
+      console.error('Error en la petición MCP:', error);
+      sendJsonRpcError(req, res, 500, -32603, 'Internal server error');
+    }
+  }
+}
@@ -0,0 +1,349 @@
+import { Messages } from './es.js';
+
+/** Mensajes en inglés. */
+export const en: Messages = {
+  common: {
+    invalidDate: 'Invalid date format. Please use YYYY-MM-DD or YYYY-MM-DDTHH:MM:SS±HH:MM.',
+    caseNotFound: caseId => `No case found with ID ${caseId}.`,
+    clientNotFound: clientId => `No client found with ID ${clientId}.`,
+    documentNotFound: fileId => `No document found with ID ${fileId}.`,
+    unknown: 'unknown',
+    client: clientId => `client ${clientId}`,
+    user: userId => `user ${userId}`,
+  },
+
+  listing: {
+    noMore: (plural, total) => `There are no more ${plural}: the query has ${total} in total.`,
+    showing: (plural, from, to, total) => `Showing ${plural} ${from}-${to} of ${total}.`,
+    more: cursor => `There are more results. Use cursor "${cursor}" for the next page.`,
+    invalidCursor: 'The cursor is not valid. Repeat the query without a cursor.',
+  },
+
+  confirmation: {
+    question: 'Do you confirm the deletion?',
+    fieldTitle: 'Confirm deletion',
+    fieldDescription: 'Tick this box to delete permanently.',
+    cancelled: 'Deletion cancelled by the user. Nothing has been deleted.',
+    pending: (tool, token, minutes) =>
+      `Nothing has been deleted yet. To confirm, call ${tool} again with confirmationToken "${token}" (expires in ${minutes} minute(s)).`,
+    invalidToken: 'The confirmation token is not valid or has expired. Call again without a token to get a new preview.',
+    otherOperation: 'The confirmation token belongs to another operation. Call again without a token to get a new preview.',
+    recordsChanged: 'The affected records have changed since the preview, so nothing has been deleted. Call again without a token to get a new preview.',
+  },
+
+  documents: {
+    askError: 'Error running the query',
+    cancelled: 'The query was cancelled.',
+    noResponse: 'No response was received from the server.',
+    caseHasNoDocuments: caseId => `The case with ID ${caseId} has no linked documents.`,
+    fileIdsOrCaseId: 'Provide fileIds or caseId.',
+    tooManyDocuments: (count, max) => `There are ${count} documents and each question accepts at most ${max}. Pass the fileIds you want to search.`,
+    answered: (fileId, completed, total) => `Document ${fileId} answered (${completed}/${total}).`,
+    title: (fileId, name) => name ? `Document ${fileId} (${name})` : `Document ${fileId}`,
+    uploadError: 'Error uploading the document',
+    oneSource: 'Provide exactly one of url, path or contentBase64.',
+    uploaded: id => `Document uploaded successfully. ID: ${id}.`,
+    conversionNote: conversion => ` Conversion applied: ${conversion}.`,
+    linkFailed: (caseId, error) => ` Could not link it to case ${caseId}: ${error}`,
+    linked: caseId => ` Linked to case ${caseId}.`,
+    uploadManyError: 'Error uploading the documents',
+    itemNeedsOneSource: 'Each item needs url or path, but not both.',
+    invalidSource: 'Invalid source.',
+    missingName: 'Could not work out a name for the document; provide name.',
+    noItems: 'Provide items, zipPath or zipBase64 with at least one document.',
+    unnamed: 'unnamed',
+    uploadStatus: { uploaded: 'Uploaded', skipped: 'Skipped', failed: 'Error' },
+    conversionDetail: conversion => `Conversion: ${conversion}`,
+    notLinkedDetail: error => `Not linked to the case: ${error}`,
+    uploadedCount: (uploaded, total) => `${uploaded} of ${total} documents uploaded successfully.`,
+    uploadTable: '| # | Name | Status | ID | Detail |\n|---|------|--------|----|--------|',
+    deleteError: 'Error deleting the document',
+    nameNotFound: name => `No document found with the name "${name}".`,
+    deletePreview: (id, name, uploadedOn) =>
+      `Document #${id} "${name}"${uploadedOn ? ` (uploaded on ${uploadedOn})` : ''} will be deleted.`,
+    linkedCases: count => `- Linked cases it will be unlinked from: ${count}`,
+    deleted: name => `Document "${name}" deleted successfully.`,
+    listError: 'Error getting the documents',
+    plural: 'documents',
+    noneMatching: 'There are no documents whose name matches the pattern.',
+    none: 'There are no documents in the system.',
+  },
+
+  clients: {
+    strategies: {
+      reassign: 'reassign the cases to another client',
+      archive: 'close the cases and archive them under another client',
+      cascade: 'delete the cases',
+    },
+    steps: {
+      done: 'Done',
+      failed: 'Error',
+      rolledBack: 'Rolled back',
+      rollbackFailed: 'Could not roll back',
+      notRun: 'Not run',
+    },
+    deletePreview: (id, name, contact) => `Client #${id} ${name} - ${contact} will be deleted.`,
+    caseCount: count => `- Associated cases: ${count}`,
+    chooseStrategy: [
+      'The backend does not allow deleting clients with associated cases. Choose what to do with them with caseStrategy:',
+      '- reassign: reassign them to another client (targetClientId).',
+      '- archive: close them and archive them under another client (targetClientId and reason).',
+      '- cascade: delete them.'
+    ].join('\n'),
+    plan: strategy => `Plan (${strategy}):`,
+    cascadeWarning: 'Deleted cases cannot be recovered, even if a later step fails.',
+    deletedReport: (id, name) => `Client #${id} ${name} deleted successfully.`,
+    notDeleted: (id, name) => `Could not delete client #${id} ${name}. The reversible steps have been rolled back.`,
+    lostCases: cases => `These cases had already been deleted and cannot be recovered: ${cases}.`,
+    stepsTable: '| # | Step | Result |\n|---|------|--------|',
+    listError: 'Error getting the clients',
+    plural: 'clients',
+    noneMatching: 'There are no clients matching the search.',
+    none: 'There are no clients in the system.',
+    getError: 'Error getting the client',
+    createError: 'Error creating the client',
+    created: 'Client created successfully.',
+    deleteError: 'Error deleting the client',
+    deleted: id => `Client with ID ${id} deleted successfully.`,
+    hasCases: 'The client cannot be deleted because it has associated cases. Provide caseStrategy to reassign them (reassign), archive them (archive) or delete them (cascade).',
+    getForEditError: 'Error getting the client to edit',
+    updateError: 'Error updating the client',
+    updated: id => `Client with ID ${id} updated successfully.`,
+  },
+
+  clientDeletion: {
+    needsTarget: strategy => `The "${strategy}" strategy needs targetClientId: the client that will receive the cases.`,
+    sameTarget: 'targetClientId must be a different client from the one being deleted.',
+    archiveNeedsReason: 'The "archive" strategy closes the cases: provide the reason for closing them in reason.',
+    targetNotFound: clientId => `No client found with ID ${clientId} to move the cases to.`,
+    reassignStep: (caseId, title, clientId, clientName) =>
+      `Reassign case #${caseId} "${title}" to client #${clientId} ${clientName}`,
+    closeAndArchiveStep: (caseId, title, clientId, clientName) =>
+      `Close case #${caseId} "${title}" and archive it under client #${clientId} ${clientName}`,
+    archiveClosedStep: (caseId, title, clientId, clientName) =>
+      `Archive closed case #${caseId} "${title}" under client #${clientId} ${clientName}`,
+    deleteCaseStep: (caseId, title) => `Delete case #${caseId} "${title}"`,
+    deleteClientStep: (clientId, name) => `Delete client #${clientId} ${name}`,
+    undoArchiveReason: clientId => `Archiving undone because deleting client ${clientId} failed`,
+    cancelled: 'Operation cancelled',
+  },
+
+  cases: {
+    summary: (id, status, title, clientId, courtDay) =>
+      `#${id} [${status}] ${title} - client ${clientId}${courtDay ? ` - hearing ${courtDay}` : ''}`,
+    deletePreview: summary => `Case ${summary} will be deleted.`,
+    previewClient: client => `- Client: ${client}`,
+    previewDocuments: (count, list) => `- Linked documents: ${count}${list}. They will be unlinked, but not deleted.`,
+    previewDeadlines: count => `- Saved deadlines that will be deleted: ${count}`,
+    previewHistory: count => `- Status history changes that will be deleted: ${count}`,
+    listError: 'Error getting the cases',
+    plural: 'cases',
+    noneMatching: 'There are no cases matching the filters.',
+    none: 'There are no cases in the system.',
+    getError: 'Error getting the case',
+    createError: 'Error creating the case',
+    created: 'Case created successfully.',
+    deleteError: 'Error deleting the case',
+    deleted: id => `Case with ID ${id} deleted successfully.`,
+    getForEditError: 'Error getting the case to edit',
+    updateError: 'Error updating the case',
+    updated: id => `Case with ID ${id} updated successfully.`,
+    deadlinesRescheduled: (count, day) => ` ${count} saved deadline(s) were recalculated from the new court date (${day}).`,
+    deadlinesNotRescheduled: error => ` Warning: the saved deadlines could not be recalculated from the new court date: ${error}`,
+  },
+
+  caseDocuments: {
+    attachError: 'Error linking the document',
+    attached: (name, caseId) => `Document "${name}" linked to case ${caseId}.`,
+    alreadyAttached: (name, caseId) => `Document "${name}" was already linked to case ${caseId}.`,
+    detachError: 'Error unlinking the document',
+    detached: (fileId, caseId) => `Document ${fileId} unlinked from case ${caseId}.`,
+    notAttached: (fileId, caseId) => `Document ${fileId} was not linked to case ${caseId}.`,
+    listError: 'Error getting the case documents',
+    none: caseId => `Case ${caseId} has no linked documents.`,
+    list: caseId => `Documents linked to case ${caseId}:`,
+  },
+
+  caseStatus: {
+    historyWarning: error => ` Warning: the status change could not be saved in the history: ${error}`,
+    createdAs: status => `created as ${status}`,
+    reason: reason => ` - reason: ${reason}`,
+    changedBy: userId => ` (user ${userId})`,
+    changeError: 'Error changing the case status',
+    changed: (caseId, from, to) => `Case ${caseId} moved from ${from} to ${to}.`,
+    historyError: 'Error getting the history',
+    noHistory: (caseId, status) => `There are no recorded status changes for case ${caseId}. Current status: ${status}.`,
+    history: (caseId, status) => `Status history of case ${caseId} (current status: ${status}):`,
+    staleError: 'Error getting the pending cases',
+    stale: threshold => `Cases in Pending for ${threshold} day(s) or more:`,
+    staleCase: (caseId, title, clientId, days, since) =>
+      `- #${caseId} ${title} - client ${clientId} - ${days} day(s) in Pending since ${since}`,
+    noStale: threshold => `There are no cases in Pending for ${threshold} day(s) or more.`,
+    unknownSince: cases =>
+      `Cases in Pending with no recorded start date (changed outside this server or before the history was kept): ${cases}`,
+    alreadyIn: status => `The case is already in status ${status}.`,
+    notAllowed: (from, to, allowed) => `Moving from ${from} to ${to} is not allowed. From ${from} the case can only move to: ${allowed}.`,
+    closeReason: 'Provide the reason for closing the case.',
+    reopenReason: 'Provide the reason for reopening the case.',
+  },
+
+  calendar: {
+    unknownTimeZone: timeZone => `Unknown time zone: "${timeZone}".`,
+    allDay: 'all day',
+    getError: 'Error getting the calendar',
+    noHearings: (from, to) => `There are no hearings scheduled from ${from} to ${to}.`,
+    hearings: (from, to, count) => `Hearings from ${from} to ${to} (${count}):`,
+    hearing: (time, caseId, status, title, client) =>
+      `- ${time} · case #${caseId} [${status}] ${title} - ${client}`,
+    conflicts: (count, minutes) =>
+      `Warning: ${count} possible hearing conflict(s) assuming a duration of ${minutes} minutes:`,
+    conflict: (day, first, firstTime, second, secondTime) =>
+      `${day}: case #${first} (${firstTime}) and case #${second} (${secondTime})`,
+    exportError: 'Error exporting the calendar',
+    exported: (count, fileName) => `Calendar with ${count} hearing(s) exported as ${fileName}.`,
+    fileName: from => `hearings-${from}.ics`,
+    name: 'Hearings - Legal Assistant RAG',
+    eventSummary: title => `Hearing: ${title}`,
+    eventCase: (caseId, status) => `Case ${caseId} (${status})`,
+    eventClient: client => `Client: ${client}`,
+  },
+
+  deadlines: {
+    caseOrDate: 'Provide exactly one of caseId or date.',
+    noCourtDate: caseId => `Case ${caseId} has no court date. Provide a reference date.`,
+    rule: (rule, anchor) => `${rule} ${anchor}`,
+    movedFrom: date => ` (moved from ${date}, a non-working day)`,
+    skipped: count => ` - ${count} non-working day(s) skipped`,
+    calculateError: 'Error calculating the deadlines',
+    calculated: 'Calculated deadlines:',
+    addError: 'Error adding the deadlines',
+    added: caseId => `Deadlines added to case ${caseId}:`,
+    listError: 'Error getting the deadlines',
+    none: caseId => `Case ${caseId} has no saved deadlines.`,
+    list: caseId => `Deadlines of case ${caseId}:`,
+    removeError: 'Error removing the deadline',
+    notFound: (caseId, deadlineId) => `Case ${caseId} has no deadline with ID ${deadlineId}.`,
+    removed: (deadlineId, caseId) => `Deadline ${deadlineId} removed from case ${caseId}.`,
+    units: { business: 'business day(s)', calendar: 'calendar day(s)' },
+    directions: { before: 'before', after: 'after' },
+    nonWorking: { sunday: 'Sunday', saturday: 'Saturday', august: 'non-working August', extra: 'additional holiday' },
+    unknownCalendar: (code, available) => `Unknown holiday calendar: "${code}". Available: ${available}.`,
+    invalidHoliday: holiday => `Invalid additional holiday: "${holiday}". Use YYYY-MM-DD or MM-DD.`,
+    invalidAnchor: anchor => `Invalid reference date: "${anchor}". Use the YYYY-MM-DD format.`,
+  },
+
+  audit: {
+    queryError: 'Error querying the audit log',
+    plural: 'entries',
+    none: 'There are no audit entries matching the filters.',
+    needsIdentity: 'In HTTP mode the audit log can only be queried by an authenticated user.',
+    hidden: '[hidden]',
+    omitted: length => `[${length} characters omitted]`,
+    logFailed: tool => `Could not write the audit entry for ${tool}:`,
+    connectionError: 'Audit connection error with PostgreSQL:',
+  },
+
+  resources: {
+    notFound: uri => `Resource not found: ${uri}`,
+  },
+
+  prompts: {
+    invalidId: name => `${name} must be a positive integer.`,
+    noDocuments: 'The case has no linked documents.',
+    briefWithoutDocuments: 'There are no linked documents; base the briefing on the case record and say which documents would be needed.',
+    clientNotLoaded: clientId => `Client ${clientId} could not be loaded.`,
+    noCourtDate: 'The case has no court date set. Ask the user for it and update the case with `lar-edit-case`.',
+    courtDateAhead: (when, days) => `The court date is ${when}, in ${days} day(s).`,
+    courtDatePast: (when, days) =>
+      `The recorded court date (${when}) was ${days} day(s) ago; confirm with the user whether a new date has been set.`,
+  },
+
+  upload: {
+    localDisabled: 'Uploading local files is disabled. Set LAR_UPLOAD_DIRS to the allowed directories.',
+    fileNotFound: file => `File "${file}" was not found.`,
+    outsideAllowedDirs: file => `File "${file}" is outside the allowed directories.`,
+    notAFile: file => `"${file}" is not a file.`,
+    invalidBase64: 'The content is not valid base64.',
+    formats: {
+      pdf: 'PDF',
+      docx: 'DOCX',
+      html: 'HTML',
+      txt: 'plain text',
+      png: 'PNG image',
+      jpeg: 'JPEG image',
+    },
+    unsupportedFormat: origin => `Unsupported format in ${origin}. PDF, DOCX, HTML, text, PNG and JPEG are accepted.`,
+    conversionFailed: (origin, format, reason) => `Could not convert ${origin} (${format}) to PDF: ${reason}`,
+    origins: {
+      download: 'the downloaded file',
+      file: file => `the file "${file}"`,
+      content: 'the received content',
+      archiveEntry: name => `the ZIP entry "${name}"`,
+    },
+    archiveEntryTooLarge: name => `The ZIP entry "${name}" exceeds the maximum allowed size.`,
+    invalidArchive: 'The file is not a valid ZIP archive.',
+    archiveTooLarge: megabytes => `The uncompressed content of the ZIP exceeds the maximum allowed size (${megabytes} MB).`,
+    tooManyArchiveEntries: (count, max) => `The ZIP contains ${count} files; the maximum is ${max}.`,
+    missingDocumentId: 'the backend did not return the document ID',
+    onlyHttp: protocol => `Only http or https URLs are allowed (got "${protocol}").`,
+    hostNotAllowed: host => `Host "${host}" is not in the list of allowed hosts.`,
+    privateAddress: address => `Address ${address} is private or local and is not allowed.`,
+    resolvesToPrivate: (host, address) =>
+      `Host "${host}" resolves to a private or local address (${address}) and is not allowed.`,
+    connectTimeout: (host, ms) => `Timed out connecting to ${host} (${ms} ms).`,
+    readTimeout: (host, ms) => `Timed out downloading from ${host} (${ms} ms without receiving data).`,
+    unresolvedHost: host => `Could not resolve host "${host}".`,
+    downloadFailed: (host, error) => `Could not download the document from ${host}: ${error}`,
+    tooManyRedirects: max => `The limit of ${max} redirects was exceeded while downloading the document.`,
+    downloadStatus: status => `Downloading the document failed with status ${status}.`,
+    tooLarge: megabytes => `The document exceeds the maximum allowed size (${megabytes} MB).`,
+  },
+
+  api: {
+    networkError: (url, cause) => `Could not connect to ${url}: ${cause}`,
+    streamErrorWithoutDetails: 'The server returned an error without details.',
+    streamNotStarted: 'Could not start reading the streaming response.',
+    credentialsRejected: body => `Credentials rejected by the backend: ${body}`,
+    missingAccount: 'The API_EMAIL or API_PASSWORD environment variables are missing',
+    forwardedTokenExpired: 'The forwarded backend token has expired. Sign in to Legal Assistant RAG again.',
+    unexpectedResponse: path => `Unexpected response from the backend at ${path}: not JSON.`,
+  },
+
+  http: {
+    sessionNotFound: 'Session not found or expired. Start a new session.',
+    sseSession: 'The session uses the SSE transport; send messages to /messages.',
+    missingSessionId: 'The Mcp-Session-Id header is missing. Start a session with an initialize request.',
+    sseSessionNotFound: 'SSE session not found or expired.',
+    bodyTooLarge: megabytes => `The request exceeds the maximum allowed size (${megabytes} MB).`,
+    invalidJson: 'The request body is not valid JSON.',
+    invalidBody: 'Could not read the request body.',
+    forwardedTokensDisabled: 'This server does not accept forwarded backend tokens.',
+    noBackendCredentials: caller =>
+      `User "${caller}" has no backend credentials configured. Send your Legal Assistant RAG token in the X-LAR-Backend-Token header.`,
+    sendBackendToken: 'Send your Legal Assistant RAG token in the X-LAR-Backend-Token header.',
+    introspectionFailed: error => `Could not validate the token with the authorization server: ${error}`,
+    inactiveToken: 'Token inactive or revoked',
+    otherIssuer: 'Token issued by another authorization server',
+    otherAudience: 'The token was not issued for this server',
+    anonymousToken: 'The token does not identify any client or user',
+    invalidApiKey: 'Invalid API key',
+  },
+
+  config: {
+    invalid: 'Invalid configuration:',
+    unreadableFile: (file, error) => `could not read the configuration file ${file}: ${error}`,
+    fileNotObject: file => `the configuration file ${file} must contain a JSON object`,
+    fileEntry: (entry, file) => `"${entry}" in ${file}`,
+    or: ' or ',
+    configuration: 'configuration',
+    invalidApiKey: entry => `invalid entry "${entry}"; use the format id:sha256 in hexadecimal`,
+    invalidHoliday: 'use YYYY-MM-DD or MM-DD',
+    stdioNeedsAccount: 'stdio mode needs the backend account (API_EMAIL and API_PASSWORD)',
+    sharedAccountNeedsCredentials: 'the shared account needs API_EMAIL and API_PASSWORD',
+    oauthNeedsBoth: 'to use OAuth configure both the issuer and the introspection URL',
+    httpNeedsAuth: 'HTTP mode needs authentication: configure API keys or OAuth, or LAR_HTTP_AUTH=none to disable it',
+    unreadableUsersFile: (file, error) => `LAR_BACKEND_USERS_FILE: could not read ${file}: ${error}`,
+    usersFileNotObject: 'LAR_BACKEND_USERS_FILE: must contain an object { "user": { "email": ..., "password": ... } }',
+    userWithoutCredentials: id => `LAR_BACKEND_USERS_FILE: user "${id}" is missing email or password`,
+  },
+};
@@ -0,0 +1,352 @@
+/**
+ * Mensajes en español. Es el catálogo de referencia: el resto de idiomas
+ * tienen su misma forma (Messages).
+ */
+export const es = {
+  common: {
+    invalidDate: 'Formato de fecha inválido. Por favor, usa el formato YYYY-MM-DD o YYYY-MM-DDTHH:MM:SS±HH:MM.',
+    caseNotFound: (caseId: number | string) => `No se encontró ningún caso con ID ${caseId}.`,
+    clientNotFound: (clientId: number) => `No se encontró ningún cliente con ID ${clientId}.`,
+    documentNotFound: (fileId: number) => `No se encontró ningún documento con ID ${fileId}.`,
+    unknown: 'desconocido',
+    client: (clientId: number) => `cliente ${clientId}`,
+    user: (userId: string) => `usuario ${userId}`,
+  },
+
+  listing: {
+    noMore: (plural: string, total: number) => `No hay más ${plural}: la consulta tiene ${total} en total.`,
+    showing: (plural: string, from: number, to: number, total: number) => `Mostrando ${plural} ${from}-${to} de ${total}.`,
+    more: (cursor: string) => `Hay más resultados. Usa cursor "${cursor}" para la página siguiente.`,
+    invalidCursor: 'El cursor no es válido. Repite la consulta sin cursor.',
+  },
+
+  confirmation: {
+    question: '¿Confirmas la eliminación?',
+    fieldTitle: 'Confirmar eliminación',
+    fieldDescription: 'Marca esta casilla para eliminar definitivamente.',
+    cancelled: 'Eliminación cancelada por el usuario. No se ha eliminado nada.',
+    pending: (tool: string, token: string, minutes: number) =>
+      `No se ha eliminado nada todavía. Para confirmar, vuelve a llamar a ${tool} con confirmationToken "${token}" (caduca en ${minutes} minuto(s)).`,
+    invalidToken: 'El token de confirmación no es válido o ha caducado. Vuelve a llamar sin token para obtener una nueva vista previa.',
+    otherOperation: 'El token de confirmación corresponde a otra operación. Vuelve a llamar sin token para obtener una nueva vista previa.',
+    recordsChanged: 'Los registros afectados han cambiado desde la vista previa, así que no se ha eliminado nada. Vuelve a llamar sin token para obtener una nueva vista previa.',
+  },
+
+  documents: {
+    askError: 'Error al realizar la consulta',
+    cancelled: 'La consulta fue cancelada.',
+    noResponse: 'No se recibió respuesta del servidor.',
+    caseHasNoDocuments: (caseId: number) => `El caso con ID ${caseId} no tiene documentos vinculados.`,
+    fileIdsOrCaseId: 'Indica fileIds o caseId.',
+    tooManyDocuments: (count: number, max: number) => `Hay ${count} documentos y cada consulta admite como máximo ${max}. Indica los fileIds que quieres consultar.`,
+    answered: (fileId: number, completed: number, total: number) => `Documento ${fileId} respondido (${completed}/${total}).`,
+    title: (fileId: number, name?: string) => name ? `Documento ${fileId} (${name})` : `Documento ${fileId}`,
+    uploadError: 'Error al subir el documento',
+    oneSource: 'Indica exactamente una de las opciones url, path o contentBase64.',
+    uploaded: (id: number | string) => `Documento subido correctamente. ID: ${id}.`,
+    conversionNote: (conversion: string) => ` Conversión aplicada: ${conversion}.`,
+    linkFailed: (caseId: number, error: string) => ` No se pudo vincular al caso ${caseId}: ${error}`,
+    linked: (caseId: number) => ` Vinculado al caso ${caseId}.`,
+    uploadManyError: 'Error al subir los documentos',
+    itemNeedsOneSource: 'Cada elemento necesita url o path, pero no ambos.',
+    invalidSource: 'Origen no válido.',
+    missingName: 'No se pudo deducir un nombre para el documento; indica name.',
+    noItems: 'Indica items, zipPath o zipBase64 con al menos un documento.',
+    unnamed: 'sin nombre',
+    uploadStatus: { uploaded: 'Subido', skipped: 'Omitido', failed: 'Error' },
+    conversionDetail: (conversion: string) => `Conversión: ${conversion}`,
+    notLinkedDetail: (error: string) => `Sin vincular al caso: ${error}`,
+    uploadedCount: (uploaded: number, total: number) => `${uploaded} de ${total} documentos subidos correctamente.`,
+    uploadTable: '| # | Nombre | Estado | ID | Detalle |\n|---|--------|--------|----|---------|',
+    deleteError: 'Error al eliminar el documento',
+    nameNotFound: (name: string) => `No se encontró ningún documento con el nombre "${name}".`,
+    deletePreview: (id: number, name: string, uploadedOn?: string) =>
+      `Se eliminará el documento #${id} "${name}"${uploadedOn ? ` (subido el ${uploadedOn})` : ''}.`,
+    linkedCases: (count: number) => `- Casos vinculados de los que se desvinculará: ${count}`,
+    deleted: (name: string) => `Documento "${name}" eliminado correctamente.`,
+    listError: 'Error al obtener los documentos',
+    plural: 'documentos',
+    noneMatching: 'No hay documentos cuyo nombre coincida con el patrón.',
+    none: 'No hay documentos disponibles en el sistema.',
+  },
+
+  clients: {
+    strategies: {
+      reassign: 'reasignar los casos a otro cliente',
+      archive: 'cerrar los casos y archivarlos en otro cliente',
+      cascade: 'eliminar los casos',
+    },
+    steps: {
+      done: 'Hecho',
+      failed: 'Error',
+      rolledBack: 'Deshecho',
+      rollbackFailed: 'No se pudo deshacer',
+      notRun: 'No ejecutado',
+    },
+    deletePreview: (id: number, name: string, contact: string) => `Se eliminará el cliente #${id} ${name} - ${contact}.`,
+    caseCount: (count: number) => `- Casos asociados: ${count}`,
+    chooseStrategy: [
+      'El backend no permite eliminar clientes con casos asociados. Elige qué hacer con ellos con caseStrategy:',
+      '- reassign: reasignarlos a otro cliente (targetClientId).',
+      '- archive: cerrarlos y archivarlos en otro cliente (targetClientId y reason).',
+      '- cascade: eliminarlos.'
+    ].join('\n'),
+    plan: (strategy: string) => `Plan (${strategy}):`,
+    cascadeWarning: 'Los casos eliminados no se pueden recuperar, aunque falle un paso posterior.',
+    deletedReport: (id: number, name: string) => `Cliente #${id} ${name} eliminado correctamente.`,
+    notDeleted: (id: number, name: string) => `No se pudo eliminar el cliente #${id} ${name}. Se han deshecho los pasos reversibles.`,
+    lostCases: (cases: string) => `Estos casos ya se habían eliminado y no se pueden recuperar: ${cases}.`,
+    stepsTable: '| # | Paso | Resultado |\n|---|------|-----------|',
+    listError: 'Error al obtener los clientes',
+    plural: 'clientes',
+    noneMatching: 'No hay clientes que coincidan con la búsqueda.',
+    none: 'No hay clientes disponibles en el sistema.',
+    getError: 'Error al obtener el cliente',
+    createError: 'Error al crear el cliente',
+    created: 'Cliente creado correctamente.',
+    deleteError: 'Error al eliminar el cliente',
+    deleted: (id: number) => `Cliente con ID ${id} eliminado correctamente.`,
+    hasCases: 'No se puede eliminar el cliente porque tiene casos asociados. Indica caseStrategy para reasignarlos (reassign), archivarlos (archive) o eliminarlos (cascade).',
+    getForEditError: 'Error al obtener el cliente para editar',
+    updateError: 'Error al actualizar el cliente',
+    updated: (id: number) => `Cliente con ID ${id} actualizado correctamente.`,
+  },
+
+  clientDeletion: {
+    needsTarget: (strategy: string) => `La estrategia "${strategy}" necesita targetClientId: el cliente que recibirá los casos.`,
+    sameTarget: 'targetClientId debe ser un cliente distinto del que se elimina.',
+    archiveNeedsReason: 'La estrategia "archive" cierra los casos: indica el motivo del cierre en reason.',
+    targetNotFound: (clientId: number) => `No se encontró ningún cliente con ID ${clientId} al que pasar los casos.`,
+    reassignStep: (caseId: number, title: string, clientId: number, clientName: string) =>
+      `Reasignar el caso #${caseId} "${title}" al cliente #${clientId} ${clientName}`,
+    closeAndArchiveStep: (caseId: number, title: string, clientId: number, clientName: string) =>
+      `Cerrar el caso #${caseId} "${title}" y archivarlo en el cliente #${clientId} ${clientName}`,
+    archiveClosedStep: (caseId: number, title: string, clientId: number, clientName: string) =>
+      `Archivar el caso cerrado #${caseId} "${title}" en el cliente #${clientId} ${clientName}`,
+    deleteCaseStep: (caseId: number, title: string) => `Eliminar el caso #${caseId} "${title}"`,
+    deleteClientStep: (clientId: number, name: string) => `Eliminar el cliente #${clientId} ${name}`,
+    undoArchiveReason: (clientId: number) => `Deshecho el archivo al fallar la eliminación del cliente ${clientId}`,
+    cancelled: 'Operación cancelada',
+  },
+
+  cases: {
+    summary: (id: number, status: string, title: string, clientId: number, courtDay?: string) =>
+      `#${id} [${status}] ${title} - cliente ${clientId}${courtDay ? ` - vista ${courtDay}` : ''}`,
+    deletePreview: (summary: string) => `Se eliminará el caso ${summary}.`,
+    previewClient: (client: string) => `- Cliente: ${client}`,
+    previewDocuments: (count: number, list: string) => `- Documentos vinculados: ${count}${list}. Se desvincularán, pero no se eliminan.`,
+    previewDeadlines: (count: number) => `- Plazos guardados que se eliminarán: ${count}`,
+    previewHistory: (count: number) => `- Cambios de estado del historial que se eliminarán: ${count}`,
+    listError: 'Error al obtener los casos',
+    plural: 'casos',
+    noneMatching: 'No hay casos que coincidan con los filtros.',
+    none: 'No hay casos disponibles en el sistema.',
+    getError: 'Error al obtener el caso',
+    createError: 'Error al crear el caso',
+    created: 'Caso creado correctamente.',
+    deleteError: 'Error al eliminar el caso',
+    deleted: (id: number) => `Caso con ID ${id} eliminado correctamente.`,
+    getForEditError: 'Error al obtener el caso para editar',
+    updateError: 'Error al actualizar el caso',
+    updated: (id: number) => `Caso con ID ${id} actualizado correctamente.`,
+    deadlinesRescheduled: (count: number, day: string) => ` Se han recalculado ${count} plazo(s) guardado(s) desde la nueva fecha de vista (${day}).`,
+    deadlinesNotRescheduled: (error: string) => ` Aviso: no se pudieron recalcular los plazos guardados con la nueva fecha de vista: ${error}`,
+  },
+
+  caseDocuments: {
+    attachError: 'Error al vincular el documento',
+    attached: (name: string, caseId: number) => `Documento "${name}" vinculado al caso ${caseId}.`,
+    alreadyAttached: (name: string, caseId: number) => `El documento "${name}" ya estaba vinculado al caso ${caseId}.`,
+    detachError: 'Error al desvincular el documento',
+    detached: (fileId: number, caseId: number) => `Documento ${fileId} desvinculado del caso ${caseId}.`,
+    notAttached: (fileId: number, caseId: number) => `El documento ${fileId} no estaba vinculado al caso ${caseId}.`,
+    listError: 'Error al obtener los documentos del caso',
+    none: (caseId: number) => `El caso ${caseId} no tiene documentos vinculados.`,
+    list: (caseId: number) => `Documentos vinculados al caso ${caseId}:`,
+  },
+
+  caseStatus: {
+    historyWarning: (error: string) => ` Aviso: no se pudo guardar el cambio de estado en el historial: ${error}`,
+    createdAs: (status: string) => `creado como ${status}`,
+    reason: (reason: string) => ` - motivo: ${reason}`,
+    changedBy: (userId: string) => ` (usuario ${userId})`,
+    changeError: 'Error al cambiar el estado del caso',
+    changed: (caseId: number, from: string, to: string) => `Caso ${caseId} pasado de ${from} a ${to}.`,
+    historyError: 'Error al obtener el historial',
+    noHistory: (caseId: number, status: string) => `No hay cambios de estado registrados para el caso ${caseId}. Estado actual: ${status}.`,
+    history: (caseId: number, status: string) => `Historial de estados del caso ${caseId} (estado actual: ${status}):`,
+    staleError: 'Error al obtener los casos pendientes',
+    stale: (threshold: number) => `Casos en Pending desde hace ${threshold} día(s) o más:`,
+    staleCase: (caseId: number, title: string, clientId: number, days: number, since: string) =>
+      `- #${caseId} ${title} - cliente ${clientId} - ${days} día(s) en Pending desde ${since}`,
+    noStale: (threshold: number) => `No hay casos en Pending desde hace ${threshold} día(s) o más.`,
+    unknownSince: (cases: string) =>
+      `Casos en Pending sin fecha de inicio registrada (cambiados fuera de este servidor o antes de guardar el historial): ${cases}`,
+    alreadyIn: (status: string) => `El caso ya está en estado ${status}.`,
+    notAllowed: (from: string, to: string, allowed: string) => `No se permite pasar de ${from} a ${to}. Desde ${from} solo se puede pasar a: ${allowed}.`,
+    closeReason: 'Indica el motivo del cierre del caso.',
+    reopenReason: 'Indica el motivo de la reapertura del caso.',
+  },
+
+  calendar: {
+    unknownTimeZone: (timeZone: string) => `Zona horaria desconocida: "${timeZone}".`,
+    allDay: 'todo el día',
+    getError: 'Error al obtener el calendario',
+    noHearings: (from: string, to: string) => `No hay vistas programadas del ${from} al ${to}.`,
+    hearings: (from: string, to: string, count: number) => `Vistas del ${from} al ${to} (${count}):`,
+    hearing: (time: string, caseId: number, status: string, title: string, client: string) =>
+      `- ${time} · caso #${caseId} [${status}] ${title} - ${client}`,
+    conflicts: (count: number, minutes: number) =>
+      `Atención: ${count} posible(s) conflicto(s) de vistas con una duración de ${minutes} minutos:`,
+    conflict: (day: string, first: number, firstTime: string, second: number, secondTime: string) =>
+      `${day}: caso #${first} (${firstTime}) y caso #${second} (${secondTime})`,
+    exportError: 'Error al exportar el calendario',
+    exported: (count: number, fileName: string) => `Calendario con ${count} vista(s) exportado como ${fileName}.`,
+    fileName: (from: string) => `vistas-${from}.ics`,
+    name: 'Vistas - Legal Assistant RAG',
+    eventSummary: (title: string) => `Vista: ${title}`,
+    eventCase: (caseId: number, status: string) => `Caso ${caseId} (${status})`,
+    eventClient: (client: string | number) => `Cliente: ${client}`,
+  },
+
+  deadlines: {
+    caseOrDate: 'Indica exactamente uno de caseId o date.',
+    noCourtDate: (caseId: number) => `El caso ${caseId} no tiene fecha de vista. Indica una fecha de referencia.`,
+    rule: (rule: string, anchor: string) => `${rule} de ${anchor}`,
+    movedFrom: (date: string) => ` (trasladado desde ${date}, inhábil)`,
+    skipped: (count: number) => ` - ${count} día(s) inhábil(es) saltado(s)`,
+    calculateError: 'Error al calcular los plazos',
+    calculated: 'Plazos calculados:',
+    addError: 'Error al añadir los plazos',
+    added: (caseId: number) => `Plazos añadidos al caso ${caseId}:`,
+    listError: 'Error al obtener los plazos',
+    none: (caseId: number) => `El caso ${caseId} no tiene plazos guardados.`,
+    list: (caseId: number) => `Plazos del caso ${caseId}:`,
+    removeError: 'Error al eliminar el plazo',
+    notFound: (caseId: number, deadlineId: number) => `El caso ${caseId} no tiene ningún plazo con ID ${deadlineId}.`,
+    removed: (deadlineId: number, caseId: number) => `Plazo ${deadlineId} eliminado del caso ${caseId}.`,
+    units: { business: 'día(s) hábil(es)', calendar: 'día(s) natural(es)' },
+    directions: { before: 'antes', after: 'después' },
+    nonWorking: { sunday: 'domingo', saturday: 'sábado', august: 'agosto inhábil', extra: 'festivo adicional' },
+    unknownCalendar: (code: string, available: string) => `Calendario de festivos desconocido: "${code}". Disponibles: ${available}.`,
+    invalidHoliday: (holiday: string) => `Festivo adicional inválido: "${holiday}". Usa YYYY-MM-DD o MM-DD.`,
+    invalidAnchor: (anchor: string) => `Fecha de referencia inválida: "${anchor}". Usa el formato YYYY-MM-DD.`,
+  },
+
+  audit: {
+    queryError: 'Error al consultar la auditoría',
+    plural: 'entradas',
+    none: 'No hay entradas de auditoría que coincidan con los filtros.',
+    needsIdentity: 'En modo HTTP la auditoría solo se puede consultar con un usuario autenticado.',
+    hidden: '[oculto]',
+    omitted: (length: number) => `[${length} caracteres omitidos]`,
+    logFailed: (tool: string) => `No se pudo registrar la auditoría de ${tool}:`,
+    connectionError: 'Error en la conexión de auditoría con PostgreSQL:',
+  },
+
+  resources: {
+    notFound: (uri: string) => `Recurso no encontrado: ${uri}`,
+  },
+
+  prompts: {
+    invalidId: (name: string) => `${name} debe ser un número entero positivo.`,
+    noDocuments: 'El caso no tiene documentos vinculados.',
+    briefWithoutDocuments: 'No hay documentos vinculados: basa el informe en la ficha del caso e indica qué documentos harían falta.',
+    clientNotLoaded: (clientId: number) => `No se pudo cargar el cliente ${clientId}.`,
+    noCourtDate: 'El caso no tiene fecha de vista. Pídesela al usuario y actualiza el caso con `lar-edit-case`.',
+    courtDateAhead: (when: string, days: number) => `La vista es el ${when}, dentro de ${days} día(s).`,
+    courtDatePast: (when: string, days: number) =>
+      `La fecha de vista registrada (${when}) fue hace ${days} día(s); confirma con el usuario si se ha fijado una nueva.`,
+  },
+
+  upload: {
+    localDisabled: 'La subida de ficheros locales está desactivada. Configura LAR_UPLOAD_DIRS con los directorios permitidos.',
+    fileNotFound: (file: string) => `No se encontró el fichero "${file}".`,
+    outsideAllowedDirs: (file: string) => `El fichero "${file}" está fuera de los directorios permitidos.`,
+    notAFile: (file: string) => `"${file}" no es un fichero.`,
+    invalidBase64: 'El contenido no es un base64 válido.',
+    formats: {
+      pdf: 'PDF',
+      docx: 'DOCX',
+      html: 'HTML',
+      txt: 'texto plano',
+      png: 'imagen PNG',
+      jpeg: 'imagen JPEG',
+    },
+    unsupportedFormat: (origin: string) => `Formato no admitido en ${origin}. Se aceptan PDF, DOCX, HTML, texto, PNG y JPEG.`,
+    conversionFailed: (origin: string, format: string, reason: string) => `No se pudo convertir ${origin} (${format}) a PDF: ${reason}`,
+    origins: {
+      download: 'el archivo descargado',
+      file: (file: string) => `el fichero "${file}"`,
+      content: 'el contenido recibido',
+      archiveEntry: (name: string) => `la entrada "${name}" del ZIP`,
+    },
+    archiveEntryTooLarge: (name: string) => `La entrada "${name}" del ZIP supera el tamaño máximo permitido.`,
+    invalidArchive: 'El archivo no es un ZIP válido.',
+    archiveTooLarge: (megabytes: string) => `El contenido descomprimido del ZIP supera el tamaño máximo permitido (${megabytes} MB).`,
+    tooManyArchiveEntries: (count: number, max: number) => `El ZIP contiene ${count} ficheros; el máximo es ${max}.`,
+    missingDocumentId: 'el backend no devolvió el ID del documento',
+    onlyHttp: (protocol: string) => `Solo se permiten URLs http o https (recibido "${protocol}").`,
+    hostNotAllowed: (host: string) => `El host "${host}" no está en la lista de hosts permitidos.`,
+    privateAddress: (address: string) => `La dirección ${address} es privada o local y no está permitida.`,
+    resolvesToPrivate: (host: string, address: string) =>
+      `El host "${host}" resuelve a una dirección privada o local (${address}) y no está permitido.`,
+    connectTimeout: (host: string, ms: number) => `Tiempo de espera agotado al conectar con ${host} (${ms} ms).`,
+    readTimeout: (host: string, ms: number) => `Tiempo de espera agotado al descargar de ${host} (${ms} ms sin recibir datos).`,
+    unresolvedHost: (host: string) => `No se pudo resolver el host "${host}".`,
+    downloadFailed: (host: string, error: string) => `No se pudo descargar el documento de ${host}: ${error}`,
+    tooManyRedirects: (max: number) => `Se superó el límite de ${max} redirecciones al descargar el documento.`,
+    downloadStatus: (status: number) => `La descarga del documento falló con el estado ${status}.`,
+    tooLarge: (megabytes: string) => `El documento supera el tamaño máximo permitido (${megabytes} MB).`,
+  },
+
+  api: {
+    networkError: (url: string, cause: string) => `No se pudo conectar con ${url}: ${cause}`,
+    streamErrorWithoutDetails: 'El servidor devolvió un error sin detalles.',
+    streamNotStarted: 'No se pudo iniciar la lectura de la respuesta en streaming.',
+    credentialsRejected: (body: string) => `Credenciales rechazadas por el backend: ${body}`,
+    missingAccount: 'Faltan las variables de entorno API_EMAIL o API_PASSWORD',
+    forwardedTokenExpired: 'El token del backend reenviado ha caducado. Vuelve a iniciar sesión en Legal Assistant RAG.',
+    unexpectedResponse: (path: string) => `Respuesta inesperada del backend en ${path}: no es JSON.`,
+  },
+
+  http: {
+    sessionNotFound: 'Sesión no encontrada o caducada. Inicia una nueva sesión.',
+    sseSession: 'La sesión usa el transporte SSE; envía los mensajes a /messages.',
+    missingSessionId: 'Falta la cabecera Mcp-Session-Id. Inicia una sesión con una petición initialize.',
+    sseSessionNotFound: 'Sesión SSE no encontrada o caducada.',
+    bodyTooLarge: (megabytes: string) => `La petición supera el tamaño máximo admitido (${megabytes} MB).`,
+    invalidJson: 'El cuerpo de la petición no es JSON válido.',
+    invalidBody: 'No se pudo leer el cuerpo de la petición.',
+    forwardedTokensDisabled: 'Este servidor no acepta tokens del backend reenviados.',
+    noBackendCredentials: (caller: string) =>
+      `El usuario "${caller}" no tiene credenciales del backend configuradas. Envía tu token de Legal Assistant RAG en la cabecera X-LAR-Backend-Token.`,
+    sendBackendToken: 'Envía tu token de Legal Assistant RAG en la cabecera X-LAR-Backend-Token.',
+    introspectionFailed: (error: string) => `No se pudo validar el token con el servidor de autorización: ${error}`,
+    inactiveToken: 'Token inactivo o revocado',
+    otherIssuer: 'Token emitido por otro servidor de autorización',
+    otherAudience: 'El token no se emitió para este servidor',
+    anonymousToken: 'El token no identifica a ningún cliente ni usuario',
+    invalidApiKey: 'Clave de API no válida',
+  },
+
+  config: {
+    invalid: 'Configuración inválida:',
+    unreadableFile: (file: string, error: string) => `no se pudo leer el fichero de configuración ${file}: ${error}`,
+    fileNotObject: (file: string) => `el fichero de configuración ${file} debe contener un objeto JSON`,
+    fileEntry: (entry: string, file: string) => `"${entry}" en ${file}`,
+    or: ' o ',
+    configuration: 'configuración',
+    invalidApiKey: (entry: string) => `entrada "${entry}" inválida; usa el formato id:sha256 en hexadecimal`,
+    invalidHoliday: 'usa YYYY-MM-DD o MM-DD',
+    stdioNeedsAccount: 'el modo stdio necesita la cuenta del backend (API_EMAIL y API_PASSWORD)',
+    sharedAccountNeedsCredentials: 'la cuenta compartida necesita API_EMAIL y API_PASSWORD',
+    oauthNeedsBoth: 'para usar OAuth configura tanto el emisor como la URL de introspección',
+    httpNeedsAuth: 'el modo HTTP necesita autenticación: configura claves de API u OAuth, o LAR_HTTP_AUTH=none para desactivarla',
+    unreadableUsersFile: (file: string, error: string) => `LAR_BACKEND_USERS_FILE: no se pudo leer ${file}: ${error}`,
+    usersFileNotObject: 'LAR_BACKEND_USERS_FILE: debe contener un objeto { "usuario": { "email": ..., "password": ... } }',
+    userWithoutCredentials: (id: string) => `LAR_BACKEND_USERS_FILE: al usuario "${id}" le falta email o password`,
+  },
+};
+
+export type Messages = typeof es;
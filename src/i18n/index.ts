@@ -0,0 +1,75 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { RequestHandler } from 'express';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { getConfig } from '../config.js';
+import { en } from './en.js';
+import { Messages, es } from './es.js';
+import { Locale, parseLocale } from './locales.js';
+
+const CATALOGUES: Record<Locale, Messages> = { es, en };
+
+/** Locale de Intl con el que se formatean las fechas de cada idioma. */
+const DATE_LOCALES: Record<Locale, string> = { es: 'es-ES', en: 'en-GB' };
+
+const requestLocale = new AsyncLocalStorage<Locale>();
+
+/** Primer idioma admitido de una cabecera Accept-Language, por orden de preferencia. */
+export function localeFromAcceptLanguage(header: string | undefined): Locale | undefined {
+  const ranges = (header ?? '').split(',').map(range => {
+    const [tag, ...params] = range.split(';');
+    const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+    return { tag, quality: quality ? Number(quality.slice(2)) : 1 };
+  });
+  const preferred = ranges.filter(range => range.quality > 0).sort((a, b) => b.quality - a.quality);
+  for (const { tag } of preferred) {
+    const locale = parseLocale(tag);
+    if (locale) {
+      return locale;
+    }
+  }
+  return undefined;
+}
+
+/** Idioma de la petición en curso o, fuera de una petición o si no indica ninguno, el configurado. */
+export function currentLocale(): Locale {
+  return requestLocale.getStore() ?? getConfig().locale;
+}
+
+export function messages(locale: Locale = currentLocale()): Messages {
+  return CATALOGUES[locale];
+}
+
+/** Ejecuta `fn` con el idioma indicado; sin idioma se mantiene el actual. */
+export function withLocale<T>(locale: Locale | undefined, fn: () => T): T {
+  return locale ? requestLocale.run(locale, fn) : fn();
+}
+
+export function formatDate(date: Date, options: Intl.DateTimeFormatOptions): string {
+  return date.toLocaleString(DATE_LOCALES[currentLocale()], options);
+}
+
+/** Un día YYYY-MM-DD, sin que la zona horaria lo cambie de fecha. */
+export function formatDay(day: string, options: Intl.DateTimeFormatOptions = { dateStyle: 'long' }): string {
+  return formatDate(new Date(`${day}T12:00:00Z`), { ...options, timeZone: 'UTC' });
+}
+
+/** En modo HTTP, el idioma de Accept-Language vale para toda la petición. */
+export const acceptLanguage: RequestHandler = (req, _res, next) => {
+  withLocale(localeFromAcceptLanguage(req.headers['accept-language']), next);
+};
+
+/**
+ * Atiende cada mensaje del transporte en el idioma de su `_meta.locale`, si
+ * lo trae, que tiene prioridad sobre Accept-Language y la configuración. Se
+ * llama después de conectar el servidor, que es quien asigna onmessage.
+ */
+export function localizeRequests(transport: Transport): void {
+  const onmessage = transport.onmessage;
+  if (!onmessage) {
+    return;
+  }
+  transport.onmessage = (message, extra) => {
+    const meta = (message as { params?: { _meta?: Record<string, unknown> } }).params?._meta;
+    withLocale(parseLocale(meta?.locale), () => onmessage(message, extra));
+  };
+}
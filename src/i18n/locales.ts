@@ -0,0 +1,13 @@
+/** Idiomas de los mensajes. Sin dependencias, para que config.ts pueda importarlo. */
+export const LOCALES = ['es', 'en'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+/** Idioma admitido de una etiqueta como "en", "en-US" o "es_ES"; undefined si no lo es. */
+export function parseLocale(value: unknown): Locale | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const language = value.trim().toLowerCase().split(/[-_]/)[0];
+  return LOCALES.find(locale => locale === language);
+}
@@ -0,0 +1,168 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, GetPromptResult, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { LarApiClient } from "../api/client.js";
+import { NotFoundError } from "../api/errors.js";
+import { Case, Client } from "../api/types.js";
+import { formatDate, messages } from "../i18n/index.js";
+import { DEFAULT_TIME_ZONE } from "../utils/calendar.js";
+import { getCaseDocuments } from "../utils/caseDocuments.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text }
+      }
+    ]
+  };
+}
+
+function parseId(value: string, label: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, messages().prompts.invalidId(label));
+  }
+  return id;
+}
+
+async function loadCase(api: LarApiClient, caseId: number): Promise<{ legalCase: Case; client?: Client }> {
+  let legalCase: Case;
+  try {
+    legalCase = await api.getCase(caseId);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw new McpError(ErrorCode.InvalidParams, messages().common.caseNotFound(caseId));
+    }
+    throw error;
+  }
+
+  // Sin el cliente el prompt sigue siendo útil, así que su fallo no es fatal.
+  const client = await api.getClient(legalCase.clientId).catch(() => undefined);
+  return { legalCase, client };
+}
+
+function formatJson(value: unknown): string {
+  return "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+}
+
+async function describeDocuments(api: LarApiClient, legalCase: Case): Promise<{ ids: number[]; text: string }> {
+  const documents = await getCaseDocuments(api, legalCase);
+  if (documents.length === 0) {
+    return { ids: [], text: messages().prompts.noDocuments };
+  }
+  return {
+    ids: documents.map(document => document.id),
+    text: documents.map(document => `- ${document.id}: ${document.name}`).join("\n")
+  };
+}
+
+export function registerWorkflowPrompts(server: McpServer, api: LarApiClient) {
+  server.prompt(
+    'client-intake',
+    'Guided intake of a new client: collects the required details and registers the client with lar-create-client.',
+    {
+      name: z.string().optional().describe('The name of the new client, if already known.'),
+    },
+    async ({ name }) => {
+      const existing = await api.listClients().catch(() => [] as Client[]);
+      const existingList = existing.length > 0
+        ? existing.map(client => `- ${client.id}: ${client.name}`).join("\n")
+        : "(none)";
+
+      return userPrompt("Client intake", [
+        "You are helping a law firm register a new client in Legal Assistant RAG.",
+        name ? `The client's name is "${name}".` : "Start by asking for the client's full name or company name.",
+        "",
+        "Collect the following details, asking one short question at a time:",
+        "1. Name (required)",
+        "2. Contact information: phone and/or email (required)",
+        "3. Postal address (optional)",
+        "4. Notes: how they reached the firm, matter summary, conflicts to check (optional)",
+        "",
+        "Before creating the client, compare the name with the existing clients below and ask for confirmation if it looks like a duplicate:",
+        existingList,
+        "",
+        "Summarise the collected details and, once the user confirms them, call `lar-create-client`.",
+        "Reply in the user's language."
+      ].join("\n"));
+    }
+  );
+
+  server.prompt(
+    'case-briefing',
+    'Briefing on a case: pulls the case, its client and its linked documents and asks the assistant to summarise them with lar-ask.',
+    {
+      caseId: z.string().describe('The ID of the case to brief.'),
+    },
+    async ({ caseId }) => {
+      const t = messages().prompts;
+      const { legalCase, client } = await loadCase(api, parseId(caseId, "caseId"));
+      const documents = await describeDocuments(api, legalCase);
+
+      const askInstruction = documents.ids.length > 0
+        ? `Call \`lar-ask-documents\` with caseId ${legalCase.id} (or \`lar-ask\` for a single document) to find the parties, the claims, key dates and obligations, and the risks or open issues in these documents.`
+        : t.briefWithoutDocuments;
+
+      return userPrompt(`Briefing for case ${legalCase.id}`, [
+        `Prepare a briefing on case ${legalCase.id} "${legalCase.title}".`,
+        "",
+        "Case record:",
+        formatJson(legalCase),
+        "",
+        "Client:",
+        client ? formatJson(client) : t.clientNotLoaded(legalCase.clientId),
+        "",
+        "Linked documents:",
+        documents.text,
+        "",
+        askInstruction,
+        "",
+        "Structure the briefing as: 1) Summary, 2) Parties and client details, 3) Key facts and dates, 4) Legal issues, 5) Next steps.",
+        "Cite the document each statement comes from. Reply in the user's language."
+      ].join("\n"));
+    }
+  );
+
+  server.prompt(
+    'court-date-preparation',
+    'Preparation checklist for the next court date of a case, using the case record, its client and its linked documents.',
+    {
+      caseId: z.string().describe('The ID of the case whose court date is being prepared.'),
+    },
+    async ({ caseId }) => {
+      const t = messages().prompts;
+      const { legalCase, client } = await loadCase(api, parseId(caseId, "caseId"));
+      const documents = await describeDocuments(api, legalCase);
+
+      let courtDateLine = t.noCourtDate;
+      if (legalCase.courtDate) {
+        const courtDate = new Date(legalCase.courtDate);
+        const days = Math.ceil((courtDate.getTime() - Date.now()) / DAY_MS);
+        const when = formatDate(courtDate, { dateStyle: "full", timeStyle: "short", timeZone: DEFAULT_TIME_ZONE });
+        courtDateLine = days >= 0 ? t.courtDateAhead(when, days) : t.courtDatePast(when, -days);
+      }
+
+      return userPrompt(`Court date preparation for case ${legalCase.id}`, [
+        `Help prepare the court appearance for case ${legalCase.id} "${legalCase.title}" (status: ${legalCase.status}).`,
+        courtDateLine,
+        "",
+        "Client:",
+        client ? formatJson(client) : t.clientNotLoaded(legalCase.clientId),
+        "",
+        "Linked documents:",
+        documents.text,
+        "",
+        "Produce:",
+        "1. A dated checklist working back from the court date (evidence, witnesses, filings, client meeting).",
+        "2. The main arguments and the documents that support them, using `lar-ask` on the linked documents.",
+        "3. Questions to confirm with the client before the hearing.",
+        "Reply in the user's language."
+      ].join("\n"));
+    }
+  );
+}
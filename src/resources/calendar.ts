@@ -0,0 +1,25 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LarApiClient } from "../api/client.js";
+import { messages } from "../i18n/index.js";
+import { DEFAULT_HEARING_MINUTES, DEFAULT_TIME_ZONE, loadHearings, toICalendar, zonedDay } from "../utils/calendar.js";
+
+export function registerCalendarResources(server: McpServer, api: LarApiClient) {
+  server.resource(
+    'court-calendar',
+    'lar://calendar/court-dates.ics',
+    { description: 'Every upcoming court date as an iCalendar (.ics) feed.', mimeType: 'text/calendar' },
+    async (uri) => {
+      const today = zonedDay(new Date(), DEFAULT_TIME_ZONE);
+      const hearings = await loadHearings(api, { from: today, timeZone: DEFAULT_TIME_ZONE });
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/calendar",
+            text: toICalendar(hearings, { name: messages().calendar.name, minutes: DEFAULT_HEARING_MINUTES })
+          }
+        ]
+      };
+    }
+  );
+}
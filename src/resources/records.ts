@@ -0,0 +1,133 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError, ReadResourceResult, Resource } from "@modelcontextprotocol/sdk/types.js";
+import { LarApiClient } from "../api/client.js";
+import { NotFoundError } from "../api/errors.js";
+import { messages } from "../i18n/index.js";
+
+// Código JSON-RPC que la especificación de MCP reserva para "resource not found".
+const RESOURCE_NOT_FOUND = -32002;
+
+function jsonContents(uri: URL, value: unknown): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(value, null, 2)
+      }
+    ]
+  };
+}
+
+function parseId(uri: URL, value: string | string[]): number {
+  const id = Number(Array.isArray(value) ? value[0] : value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new McpError(RESOURCE_NOT_FOUND, messages().resources.notFound(uri.href));
+  }
+  return id;
+}
+
+async function readRecord<T>(uri: URL, load: () => Promise<T | undefined>): Promise<ReadResourceResult> {
+  let record: T | undefined;
+  try {
+    record = await load();
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) {
+      throw error;
+    }
+  }
+
+  if (record === undefined) {
+    throw new McpError(RESOURCE_NOT_FOUND, messages().resources.notFound(uri.href));
+  }
+  return jsonContents(uri, record);
+}
+
+/**
+ * Una lista que falla no debe romper resources/list para el resto de
+ * recursos, así que los errores del backend devuelven una lista vacía.
+ */
+async function listOrEmpty(list: () => Promise<Resource[]>): Promise<{ resources: Resource[] }> {
+  try {
+    return { resources: await list() };
+  } catch {
+    return { resources: [] };
+  }
+}
+
+async function completeIds(prefix: string, load: () => Promise<{ id: number }[]>): Promise<string[]> {
+  try {
+    return (await load()).map(record => String(record.id)).filter(id => id.startsWith(prefix));
+  } catch {
+    return [];
+  }
+}
+
+export function registerRecordResources(server: McpServer, api: LarApiClient) {
+  server.resource(
+    'clients',
+    'lar://clients',
+    { description: 'All clients of the current user.', mimeType: 'application/json' },
+    async (uri) => jsonContents(uri, await api.listClients())
+  );
+
+  server.resource(
+    'client',
+    new ResourceTemplate('lar://clients/{id}', {
+      list: () => listOrEmpty(async () => (await api.listClients()).map(client => ({
+        uri: `lar://clients/${client.id}`,
+        name: client.name,
+        mimeType: 'application/json'
+      }))),
+      complete: { id: (value) => completeIds(value, () => api.listClients()) }
+    }),
+    { description: 'A single client record.', mimeType: 'application/json' },
+    async (uri, { id }) => readRecord(uri, () => api.getClient(parseId(uri, id)))
+  );
+
+  server.resource(
+    'cases',
+    'lar://cases',
+    { description: 'All legal cases.', mimeType: 'application/json' },
+    async (uri) => jsonContents(uri, await api.listCases())
+  );
+
+  server.resource(
+    'case',
+    new ResourceTemplate('lar://cases/{id}', {
+      list: () => listOrEmpty(async () => (await api.listCases()).map(legalCase => ({
+        uri: `lar://cases/${legalCase.id}`,
+        name: legalCase.title,
+        mimeType: 'application/json'
+      }))),
+      complete: { id: (value) => completeIds(value, () => api.listCases()) }
+    }),
+    { description: 'A single legal case record.', mimeType: 'application/json' },
+    async (uri, { id }) => readRecord(uri, () => api.getCase(parseId(uri, id)))
+  );
+
+  server.resource(
+    'documents',
+    'lar://documents',
+    { description: 'All documents uploaded to Legal Assistant RAG.', mimeType: 'application/json' },
+    async (uri) => jsonContents(uri, await api.listFiles())
+  );
+
+  server.resource(
+    'document',
+    new ResourceTemplate('lar://documents/{id}', {
+      list: () => listOrEmpty(async () => (await api.listFiles()).map(document => ({
+        uri: `lar://documents/${document.id}`,
+        name: document.name,
+        mimeType: 'application/json'
+      }))),
+      complete: { id: (value) => completeIds(value, () => api.listFiles()) }
+    }),
+    { description: 'The metadata of a single uploaded document.', mimeType: 'application/json' },
+    async (uri, { id }) => {
+      const documentId = parseId(uri, id);
+      // El backend no expone GET /api/files/{id}; se busca en el listado.
+      return readRecord(uri, async () => (await api.listFiles()).find(document => document.id === documentId));
+    }
+  );
+}
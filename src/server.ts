@@ -0,0 +1,40 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LarApiClient } from "./api/client.js";
+import { registerWorkflowPrompts } from "./prompts/workflows.js";
+import { registerCalendarResources } from "./resources/calendar.js";
+import { registerRecordResources } from "./resources/records.js";
+import { registerAuditTools } from "./tools/audit.js";
+import { registerCalendarTools } from "./tools/calendar.js";
+import { registerCaseDocumentTools } from "./tools/caseDocuments.js";
+import { registerCaseStatusTools } from "./tools/caseStatus.js";
+import { registerCaseTools } from "./tools/cases.js";
+import { registerClientTools } from "./tools/clients.js";
+import { registerDeadlineTools } from "./tools/deadlines.js";
+import { registerDocumentTools } from "./tools/documents.js";
+
+/**
+ * Servidor MCP con todas las herramientas, recursos y prompts, que trabaja
+ * contra el backend con la sesión de `api`. En modo HTTP se crea uno por
+ * petición para que cada usuario use su propia identidad del backend.
+ */
+export function createServer(api: LarApiClient): McpServer {
+  const server = new McpServer({
+    name: "Legal Assistant Rag",
+    version: "1.0.0",
+    description: "A legal assistant that can answer questions about your documents and more.",
+  });
+
+  registerDocumentTools(server, api);
+  registerClientTools(server, api);
+  registerCaseTools(server, api);
+  registerCaseDocumentTools(server, api);
+  registerCaseStatusTools(server, api);
+  registerCalendarTools(server, api);
+  registerDeadlineTools(server, api);
+  registerAuditTools(server);
+  registerRecordResources(server, api);
+  registerCalendarResources(server, api);
+  registerWorkflowPrompts(server, api);
+
+  return server;
+}
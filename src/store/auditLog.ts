@@ -0,0 +1,249 @@
+import { randomUUID } from 'node:crypto';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import pg from 'pg';
+import { getConfig } from '../config.js';
+import { messages } from '../i18n/index.js';
+import { getDataDir } from './jsonStore.js';
+
+export const AUDIT_ENTITIES = ['client', 'case', 'document'] as const;
+
+export type AuditEntity = typeof AUDIT_ENTITIES[number];
+
+export type AuditStatus = 'success' | 'error' | 'pending-confirmation' | 'cancelled';
+
+export interface AuditActor {
+  /** Usuario del backend con el que se hizo la llamada. */
+  userId?: string;
+  /** Usuario MCP autenticado (el titular de la clave de API o del token OAuth), si lo hay. */
+  clientId?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: AuditActor;
+  tool: string;
+  entity: AuditEntity;
+  entityId?: string;
+  arguments: Record<string, unknown>;
+  before?: unknown;
+  after?: unknown;
+  status: AuditStatus;
+  error?: string;
+}
+
+export interface AuditFilter {
+  entity?: AuditEntity;
+  entityId?: string;
+  actor?: string;
+  /** Solo las entradas de este usuario MCP, además de cualquier otro filtro. */
+  clientId?: string;
+  tool?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Registro de auditoría de solo adición: no hay operaciones para modificar ni
+ * borrar entradas.
+ */
+export interface AuditStore {
+  append(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<AuditEntry>;
+  query(filter: AuditFilter): Promise<AuditEntry[]>;
+}
+
+function newEntry(entry: Omit<AuditEntry, 'id' | 'timestamp'>): AuditEntry {
+  return { id: randomUUID(), timestamp: new Date().toISOString(), ...entry };
+}
+
+function matches(entry: AuditEntry, filter: AuditFilter): boolean {
+  const time = Date.parse(entry.timestamp);
+  return (!filter.entity || entry.entity === filter.entity) &&
+    (!filter.entityId || entry.entityId === filter.entityId) &&
+    (!filter.actor || entry.actor.userId === filter.actor || entry.actor.clientId === filter.actor) &&
+    (!filter.clientId || entry.actor.clientId === filter.clientId) &&
+    (!filter.tool || entry.tool === filter.tool) &&
+    (!filter.from || time >= filter.from.getTime()) &&
+    (!filter.to || time <= filter.to.getTime());
+}
+
+/** Una entrada JSON por línea en audit-log.jsonl, dentro del directorio de datos. */
+class FileAuditStore implements AuditStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private get filePath(): string {
+    return path.join(getDataDir(), 'audit-log.jsonl');
+  }
+
+  append(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<AuditEntry> {
+    const full = newEntry(entry);
+    const run = this.queue.catch(() => {}).then(async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, JSON.stringify(full) + '\n', 'utf8');
+      return full;
+    });
+    this.queue = run;
+    return run;
+  }
+
+  async query(filter: AuditFilter): Promise<AuditEntry[]> {
+    await this.queue.catch(() => {});
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as AuditEntry;
+        if (matches(entry, filter)) {
+          entries.push(entry);
+        }
+      } catch {
+        // Una línea cortada por un cierre brusco no invalida el resto del registro.
+      }
+    }
+    return entries;
+  }
+}
+
+const CREATE_TABLE = `
+  CREATE TABLE IF NOT EXISTS lar_audit_log (
+    id uuid PRIMARY KEY,
+    "timestamp" timestamptz NOT NULL,
+    actor_user_id text,
+    actor_client_id text,
+    tool text NOT NULL,
+    entity text NOT NULL,
+    entity_id text,
+    arguments jsonb NOT NULL,
+    before jsonb,
+    after jsonb,
+    status text NOT NULL,
+    error text
+  );
+  CREATE INDEX IF NOT EXISTS lar_audit_log_entity_idx ON lar_audit_log (entity, entity_id);
+  CREATE INDEX IF NOT EXISTS lar_audit_log_timestamp_idx ON lar_audit_log ("timestamp");
+`;
+
+interface AuditRow {
+  id: string;
+  timestamp: Date;
+  actor_user_id: string | null;
+  actor_client_id: string | null;
+  tool: string;
+  entity: AuditEntity;
+  entity_id: string | null;
+  arguments: Record<string, unknown>;
+  before: unknown;
+  after: unknown;
+  status: AuditStatus;
+  error: string | null;
+}
+
+/**
+ * Tabla lar_audit_log en PostgreSQL. El servidor solo hace INSERT y SELECT;
+ * para que el registro sea inalterable de verdad, el usuario de la base de
+ * datos no debería tener más permisos que esos sobre la tabla.
+ */
+class PostgresAuditStore implements AuditStore {
+  private readonly pool: pg.Pool;
+  private ready?: Promise<void>;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString });
+    // Sin este manejador, una conexión inactiva que se cae tumbaría el proceso.
+    this.pool.on('error', error => console.error(messages(getConfig().locale).audit.connectionError, error));
+  }
+
+  private ensureTable(): Promise<void> {
+    this.ready ??= this.pool.query(CREATE_TABLE).then(() => undefined, error => {
+      this.ready = undefined;
+      throw error;
+    });
+    return this.ready;
+  }
+
+  async append(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<AuditEntry> {
+    await this.ensureTable();
+    const full = newEntry(entry);
+    await this.pool.query(
+      `INSERT INTO lar_audit_log
+         (id, "timestamp", actor_user_id, actor_client_id, tool, entity, entity_id, arguments, before, after, status, error)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        full.id,
+        full.timestamp,
+        full.actor.userId ?? null,
+        full.actor.clientId ?? null,
+        full.tool,
+        full.entity,
+        full.entityId ?? null,
+        JSON.stringify(full.arguments),
+        full.before === undefined ? null : JSON.stringify(full.before),
+        full.after === undefined ? null : JSON.stringify(full.after),
+        full.status,
+        full.error ?? null
+      ]
+    );
+    return full;
+  }
+
+  async query(filter: AuditFilter): Promise<AuditEntry[]> {
+    await this.ensureTable();
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const add = (condition: string, value: unknown) => {
+      values.push(value);
+      conditions.push(condition.replace('?', `$${values.length}`));
+    };
+
+    if (filter.entity) add('entity = ?', filter.entity);
+    if (filter.entityId) add('entity_id = ?', filter.entityId);
+    if (filter.actor) {
+      values.push(filter.actor);
+      conditions.push(`(actor_user_id = $${values.length} OR actor_client_id = $${values.length})`);
+    }
+    if (filter.clientId) add('actor_client_id = ?', filter.clientId);
+    if (filter.tool) add('tool = ?', filter.tool);
+    if (filter.from) add('"timestamp" >= ?', filter.from);
+    if (filter.to) add('"timestamp" <= ?', filter.to);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { rows } = await this.pool.query<AuditRow>(`SELECT * FROM lar_audit_log ${where} ORDER BY "timestamp"`, values);
+
+    return rows.map(row => ({
+      id: row.id,
+      timestamp: row.timestamp.toISOString(),
+      actor: {
+        ...(row.actor_user_id ? { userId: row.actor_user_id } : {}),
+        ...(row.actor_client_id ? { clientId: row.actor_client_id } : {})
+      },
+      tool: row.tool,
+      entity: row.entity,
+      ...(row.entity_id ? { entityId: row.entity_id } : {}),
+      arguments: row.arguments,
+      ...(row.before !== null ? { before: row.before } : {}),
+      ...(row.after !== null ? { after: row.after } : {}),
+      status: row.status,
+      ...(row.error ? { error: row.error } : {})
+    }));
+  }
+}
+
+let store: AuditStore | undefined;
+
+/** PostgreSQL si se configura LAR_AUDIT_DATABASE_URL; si no, un fichero en el directorio de datos. */
+export function getAuditStore(): AuditStore {
+  const { databaseUrl } = getConfig().audit;
+  store ??= databaseUrl ? new PostgresAuditStore(databaseUrl) : new FileAuditStore();
+  return store;
+}
@@ -0,0 +1,62 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getConfig } from '../config.js';
+
+/** Directorio de los datos locales del servidor (LAR_DATA_DIR, por defecto ~/.lar-mcp). */
+export function getDataDir(): string {
+  return getConfig().dataDir;
+}
+
+/**
+ * Documento JSON persistido en un fichero del directorio de datos. Las
+ * escrituras se encadenan para que dos llamadas concurrentes no se pisen y se
+ * hacen sobre un fichero temporal que luego se renombra, de modo que un corte
+ * a mitad de escritura no deja el fichero corrupto.
+ */
+export class JsonStore<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly fileName: string,
+    private readonly createDefault: () => T,
+  ) {}
+
+  get filePath(): string {
+    return path.join(getDataDir(), this.fileName);
+  }
+
+  async read(): Promise<T> {
+    await this.queue.catch(() => {});
+    return this.load();
+  }
+
+  update<R>(change: (data: T) => R): Promise<R> {
+    const run = this.queue.catch(() => {}).then(async () => {
+      const data = await this.load();
+      const result = change(data);
+      await this.save(data);
+      return result;
+    });
+    this.queue = run;
+    return run;
+  }
+
+  private async load(): Promise<T> {
+    try {
+      return JSON.parse(await readFile(this.filePath, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.createDefault();
+      }
+      throw error;
+    }
+  }
+
+  private async save(data: T): Promise<void> {
+    const filePath = this.filePath;
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await rename(tempPath, filePath);
+  }
+}
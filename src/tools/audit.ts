@@ -0,0 +1,162 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { LarApiClient } from "../api/client.js";
+import { getConfig } from "../config.js";
+import { callerId } from "../http/backendSessions.js";
+import { messages } from "../i18n/index.js";
+import { AUDIT_ENTITIES, AuditEntity, AuditEntry, AuditStatus, getAuditStore } from "../store/auditLog.js";
+import { listingArgs, listingResult, paginate, sortBy } from "./listing.js";
+import { ToolExtra } from "./progress.js";
+import { errorResult } from "./results.js";
+
+const MAX_LOGGED_STRING = 1000;
+const HIDDEN_ARGUMENTS = new Set(["confirmationToken"]);
+
+export interface AuditSpec<Args> {
+  entity: AuditEntity;
+  /** ID de la entidad afectada; en las altas sale del resultado. */
+  entityId?: (args: Args, result: CallToolResult) => string | number | undefined;
+  /** Estado de la entidad, que se guarda antes y después de la llamada. */
+  snapshot?: (args: Args) => Promise<unknown>;
+  /** Campo del resultado con el registro creado, cuando no hay snapshot. */
+  resultKey?: string;
+}
+
+/** Los contenidos en base64 y los tokens no se guardan en el registro. */
+function sanitizeArguments(args: unknown): Record<string, unknown> {
+  const t = messages().audit;
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries((args ?? {}) as Record<string, unknown>)) {
+    if (HIDDEN_ARGUMENTS.has(key)) {
+      sanitized[key] = value === undefined ? undefined : t.hidden;
+    } else if (typeof value === "string" && value.length > MAX_LOGGED_STRING) {
+      sanitized[key] = t.omitted(value.length);
+    } else if (Array.isArray(value)) {
+      sanitized[key] = value.map(item => typeof item === "object" && item !== null ? sanitizeArguments(item) : item);
+    } else {
+      sanitized[key] = value;
+    }
+  }
+  return sanitized;
+}
+
+function resultStatus(result: CallToolResult): AuditStatus {
+  if (result.isError) return "error";
+  if (result.confirmationToken) return "pending-confirmation";
+  if (result.cancelled) return "cancelled";
+  return "success";
+}
+
+function resultText(result: CallToolResult): string | undefined {
+  const first = result.content[0];
+  return first?.type === "text" ? first.text : undefined;
+}
+
+async function takeSnapshot<Args>(spec: AuditSpec<Args>, args: Args): Promise<unknown> {
+  if (!spec.snapshot) return undefined;
+  try {
+    return await spec.snapshot(args);
+  } catch {
+    // Tras un borrado, o si el registro no existe, no hay estado que guardar.
+    return null;
+  }
+}
+
+/**
+ * Envuelve el manejador de una herramienta que modifica datos para que cada
+ * llamada deje una entrada en el registro de auditoría: quién, qué
+ * herramienta, con qué argumentos, el estado antes y después, y el resultado.
+ * Si el registro falla, la llamada no se deshace; el fallo se escribe en
+ * stderr.
+ */
+export function audited<Args>(
+  api: LarApiClient,
+  tool: string,
+  spec: AuditSpec<Args>,
+  handler: (args: Args, extra: ToolExtra) => Promise<CallToolResult>
+): (args: Args, extra: ToolExtra) => Promise<CallToolResult> {
+  return async (args, extra) => {
+    const before = await takeSnapshot(spec, args);
+    const result = await handler(args, extra);
+    const status = resultStatus(result);
+
+    try {
+      const after = status === "success"
+        ? (spec.snapshot ? await takeSnapshot(spec, args) : spec.resultKey ? result[spec.resultKey] : undefined)
+        : undefined;
+      const entityId = spec.entityId?.(args, result);
+      await getAuditStore().append({
+        actor: {
+          userId: await api.getUserId().catch(() => undefined),
+          clientId: callerId(extra.authInfo)
+        },
+        tool,
+        entity: spec.entity,
+        entityId: entityId === undefined ? undefined : String(entityId),
+        arguments: sanitizeArguments(args),
+        before,
+        after,
+        status,
+        error: status === "error" ? resultText(result) : undefined
+      });
+    } catch (error) {
+      // Es un aviso para el operador: va en el idioma configurado, no en el de la petición.
+      console.error(messages(getConfig().locale).audit.logFailed(tool), error);
+    }
+
+    return result;
+  };
+}
+
+function summarizeEntry(entry: AuditEntry): string {
+  const t = messages().common;
+  const actor = entry.actor.userId ?? entry.actor.clientId ?? t.unknown;
+  const target = entry.entityId ? `${entry.entity} ${entry.entityId}` : entry.entity;
+  return `${entry.timestamp} ${entry.tool} [${entry.status}] ${target} - ${t.user(actor)}`;
+}
+
+export function registerAuditTools(server: McpServer) {
+  server.tool(
+    'lar-audit-log',
+    'Tool to query the audit log of every call to a tool that creates, edits or deletes clients, cases or documents, filtered by entity, actor and date range. In HTTP mode each user only sees their own entries.',
+    {
+      entity: z.enum(AUDIT_ENTITIES).optional().describe('Only entries for this kind of record.'),
+      entityId: z.string().optional().describe('Only entries for this record ID (or document name).'),
+      actor: z.string().optional().describe('Only entries made by this backend user ID or MCP client ID.'),
+      tool: z.string().optional().describe('Only entries for this tool, e.g. "lar-delete-case".'),
+      from: z.string().optional().describe('Only entries on or after this date (YYYY-MM-DD or ISO 8601).'),
+      to: z.string().optional().describe('Only entries on or before this date (YYYY-MM-DD or ISO 8601).'),
+      ...listingArgs,
+      sortOrder: z.enum(['asc', 'desc']).default('desc').describe('Sort direction by time; newest first by default.'),
+    },
+    async ({ entity, entityId, actor, tool, from, to, ...options }, extra) => {
+      const t = messages();
+      // Las entradas guardan argumentos y datos personales de los clientes:
+      // en modo HTTP cada usuario solo ve las suyas, y sin identidad ninguna.
+      const caller = callerId(extra.authInfo);
+      if (getConfig().transport === "http" && caller === undefined) {
+        return errorResult(t.audit.queryError, t.audit.needsIdentity);
+      }
+
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return errorResult(t.audit.queryError, t.common.invalidDate);
+      }
+
+      try {
+        const entries = await getAuditStore().query({ entity, entityId, actor, clientId: caller, tool, from: fromDate, to: toDate });
+        return listingResult(
+          paginate(sortBy(entries, entry => entry.timestamp, options.sortOrder), options),
+          options,
+          { plural: t.audit.plural, empty: t.audit.none },
+          summarizeEntry,
+          "entries"
+        );
+      } catch (error) {
+        return errorResult(t.audit.queryError, error);
+      }
+    }
+  );
+}
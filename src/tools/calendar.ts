@@ -0,0 +1,173 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { LarApiClient } from "../api/client.js";
+import { CASE_STATUSES } from "../api/types.js";
+import { formatDate, formatDay, messages } from "../i18n/index.js";
+import {
+  CourtHearing,
+  DEFAULT_HEARING_MINUTES,
+  DEFAULT_TIME_ZONE,
+  HearingConflict,
+  findConflicts,
+  hearingDay,
+  isValidTimeZone,
+  loadHearings,
+  shiftDay,
+  toICalendar,
+  zonedDay
+} from "../utils/calendar.js";
+import { parseDay } from "../utils/deadlines.js";
+import { errorResult, textResult } from "./results.js";
+
+const calendarArgs = {
+  from: z.string().optional().describe('First day of the window (YYYY-MM-DD or ISO 8601), in timeZone. Defaults to today.'),
+  status: z.enum(CASE_STATUSES).optional().describe('Only cases with this status.'),
+  clientId: z.number().int().positive().optional().describe('Only cases of this client.'),
+  hearingMinutes: z.number().int().min(5).max(24 * 60).default(DEFAULT_HEARING_MINUTES).describe('Assumed duration of each hearing, in minutes, used for conflicts and calendar events.'),
+  timeZone: z.string().default(DEFAULT_TIME_ZONE).describe('IANA time zone used to group hearings by day and show their times.'),
+};
+
+/**
+ * Días de la ventana, del primero al último, en la zona horaria indicada, o
+ * un mensaje de error si los argumentos no son válidos. Una fecha con hora
+ * cuenta por el día que es en esa zona.
+ */
+function resolveWindow(from: string | undefined, days: number, timeZone: string): { from: string; to: string } | string {
+  const t = messages();
+  if (!isValidTimeZone(timeZone)) {
+    return t.calendar.unknownTimeZone(timeZone);
+  }
+  let start: string;
+  if (from !== undefined && parseDay(from)) {
+    start = from;
+  } else {
+    const date = from !== undefined ? new Date(from) : new Date();
+    if (isNaN(date.getTime())) {
+      return t.common.invalidDate;
+    }
+    start = zonedDay(date, timeZone);
+  }
+  return { from: start, to: shiftDay(start, days - 1) };
+}
+
+function clientLabel(hearing: CourtHearing): string {
+  return hearing.clientName ?? messages().common.client(hearing.clientId);
+}
+
+function hearingTime(hearing: CourtHearing, timeZone: string): string {
+  return hearing.allDay
+    ? messages().calendar.allDay
+    : formatDate(hearing.start, { timeZone, hour: "2-digit", minute: "2-digit" });
+}
+
+function describeConflict({ first, second }: HearingConflict, timeZone: string): string {
+  return messages().calendar.conflict(formatDay(hearingDay(first, timeZone), { dateStyle: "medium" }), first.caseId, hearingTime(first, timeZone), second.caseId, hearingTime(second, timeZone));
+}
+
+function serializeHearing(hearing: CourtHearing, timeZone: string) {
+  return {
+    caseId: hearing.caseId,
+    title: hearing.title,
+    status: hearing.status,
+    clientId: hearing.clientId,
+    clientName: hearing.clientName ?? null,
+    courtDate: hearing.start.toISOString(),
+    day: hearingDay(hearing, timeZone),
+    allDay: hearing.allDay
+  };
+}
+
+export function registerCalendarTools(server: McpServer, api: LarApiClient) {
+  server.tool(
+    'lar-court-calendar',
+    'Tool to list upcoming court dates over a window of days, grouped by day with client names and case status, and to warn about overlapping hearings.',
+    {
+      ...calendarArgs,
+      days: z.number().int().min(1).max(366).default(30).describe('Number of days in the window.'),
+    },
+    async ({ from, days, status, clientId, hearingMinutes, timeZone }) => {
+      const t = messages().calendar;
+      const window = resolveWindow(from, days, timeZone);
+      if (typeof window === "string") {
+        return errorResult(t.getError, window);
+      }
+
+      try {
+        const hearings = await loadHearings(api, { ...window, timeZone, status, clientId });
+        const conflicts = findConflicts(hearings, hearingMinutes, timeZone);
+        const [rangeStart, rangeEnd] = [window.from, window.to].map(day => formatDay(day));
+        const structured = {
+          hearings: hearings.map(hearing => serializeHearing(hearing, timeZone)),
+          conflicts: conflicts.map(({ first, second }) => ({ caseIds: [first.caseId, second.caseId], day: hearingDay(first, timeZone) }))
+        };
+
+        if (hearings.length === 0) {
+          return textResult(t.noHearings(rangeStart, rangeEnd), structured);
+        }
+
+        const days = new Map<string, CourtHearing[]>();
+        for (const hearing of hearings) {
+          const day = hearingDay(hearing, timeZone);
+          days.set(day, [...(days.get(day) ?? []), hearing]);
+        }
+
+        const sections = [...days].map(([day, dayHearings]) => [
+          `## ${formatDay(day, { weekday: "long", day: "numeric", month: "long", year: "numeric" })}`,
+          ...dayHearings.map(hearing =>
+            t.hearing(hearingTime(hearing, timeZone), hearing.caseId, hearing.status, hearing.title, clientLabel(hearing))
+          )
+        ].join("\n"));
+
+        const warnings = conflicts.length > 0
+          ? `\n\n${t.conflicts(conflicts.length, hearingMinutes)}\n` +
+            conflicts.map(conflict => `- ${describeConflict(conflict, timeZone)}`).join("\n")
+          : "";
+
+        return textResult(`${t.hearings(rangeStart, rangeEnd, hearings.length)}\n\n${sections.join("\n\n")}${warnings}`, structured);
+      } catch (error) {
+        return errorResult(t.getError, error);
+      }
+    }
+  );
+
+  server.tool(
+    'lar-export-calendar',
+    'Tool to export court dates over a window of days as an iCalendar (.ics) file that can be imported into calendar applications.',
+    {
+      ...calendarArgs,
+      days: z.number().int().min(1).max(366).default(90).describe('Number of days in the window.'),
+    },
+    async ({ from, days, status, clientId, hearingMinutes, timeZone }) => {
+      const t = messages().calendar;
+      const window = resolveWindow(from, days, timeZone);
+      if (typeof window === "string") {
+        return errorResult(t.exportError, window);
+      }
+
+      try {
+        const hearings = await loadHearings(api, { ...window, timeZone, status, clientId });
+        const ics = toICalendar(hearings, { name: t.name, minutes: hearingMinutes });
+        const fileName = t.fileName(window.from);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: t.exported(hearings.length, fileName)
+            },
+            {
+              type: "resource",
+              resource: {
+                uri: `lar://calendar/${fileName}`,
+                mimeType: "text/calendar",
+                text: ics
+              }
+            }
+          ]
+        };
+      } catch (error) {
+        return errorResult(t.exportError, error);
+      }
+    }
+  );
+}
@@ -0,0 +1,92 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { LarApiClient } from "../api/client.js";
+import { NotFoundError } from "../api/errors.js";
+import { messages } from "../i18n/index.js";
+import { caseDocumentLinks, getCaseDocuments } from "../utils/caseDocuments.js";
+import { audited } from "./audit.js";
+import { errorResult, textResult } from "./results.js";
+
+export function registerCaseDocumentTools(server: McpServer, api: LarApiClient) {
+  server.tool(
+    'lar-attach-document',
+    'Tool to link an uploaded document to a case.',
+    {
+      caseId: z.number().int().positive().describe('The ID of the case.'),
+      fileId: z.number().int().positive().describe('The ID of the document to link.'),
+    },
+    audited(api, 'lar-attach-document', { entity: 'case', entityId: ({ caseId }) => caseId, snapshot: ({ caseId }) => caseDocumentLinks(api).list(caseId) },
+      async ({ caseId, fileId }) => {
+        const t = messages();
+        try {
+          const [, files] = await Promise.all([api.getCase(caseId), api.listFiles()]);
+          const document = files.find(file => file.id === fileId);
+          if (!document) {
+            return errorResult(t.caseDocuments.attachError, t.common.documentNotFound(fileId));
+          }
+
+          const attached = await caseDocumentLinks(api).attach(caseId, fileId);
+          return textResult(attached
+            ? t.caseDocuments.attached(document.name, caseId)
+            : t.caseDocuments.alreadyAttached(document.name, caseId));
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            return errorResult(t.caseDocuments.attachError, t.common.caseNotFound(caseId));
+          }
+          return errorResult(t.caseDocuments.attachError, error);
+        }
+      }
+    )
+  );
+
+  server.tool(
+    'lar-detach-document',
+    'Tool to unlink a document from a case. The document itself is not deleted.',
+    {
+      caseId: z.number().int().positive().describe('The ID of the case.'),
+      fileId: z.number().int().positive().describe('The ID of the document to unlink.'),
+    },
+    audited(api, 'lar-detach-document', { entity: 'case', entityId: ({ caseId }) => caseId, snapshot: ({ caseId }) => caseDocumentLinks(api).list(caseId) },
+      async ({ caseId, fileId }) => {
+        const t = messages();
+        try {
+          // Comprueba que el caso existe y es del usuario antes de tocar sus vínculos.
+          await api.getCase(caseId);
+          const detached = await caseDocumentLinks(api).detach(caseId, fileId);
+          return textResult(detached
+            ? t.caseDocuments.detached(fileId, caseId)
+            : t.caseDocuments.notAttached(fileId, caseId));
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            return errorResult(t.caseDocuments.detachError, t.common.caseNotFound(caseId));
+          }
+          return errorResult(t.caseDocuments.detachError, error);
+        }
+      }
+    )
+  );
+
+  server.tool(
+    'lar-list-case-documents',
+    'Tool to list the documents linked to a case.',
+    {
+      caseId: z.number().int().positive().describe('The ID of the case.'),
+    },
+    async ({ caseId }) => {
+      const t = messages();
+      try {
+        const documents = await getCaseDocuments(api, caseId);
+        if (documents.length === 0) {
+          return textResult(t.caseDocuments.none(caseId), { documents });
+        }
+        const lines = documents.map(document => `#${document.id} ${document.name}`);
+        return textResult(`${t.caseDocuments.list(caseId)}\n\n${lines.join("\n")}`, { documents });
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return errorResult(t.caseDocuments.listError, t.common.caseNotFound(caseId));
+        }
+        return errorResult(t.caseDocuments.listError, error);
+      }
+    }
+  );
+}
@@ -0,0 +1,160 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { LarApiClient } from "../api/client.js";
+import { NotFoundError } from "../api/errors.js";
+import { CASE_STATUSES, Case, CaseInput } from "../api/types.js";
+import { formatDate, formatDay, messages } from "../i18n/index.js";
+import { DEFAULT_TIME_ZONE } from "../utils/calendar.js";
+import {
+  StatusChange,
+  getAllStatusHistory,
+  getPendingThreshold,
+  getStatusHistory,
+  recordStatusChange,
+  statusSince,
+  validateTransition
+} from "../utils/caseStatus.js";
+import { audited } from "./audit.js";
+import { errorResult, textResult } from "./results.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Registra el cambio en el historial. El caso ya está actualizado en el
+ * backend, así que un fallo aquí se avisa en el resultado en lugar de
+ * presentarse como un error del cambio de estado.
+ */
+export async function recordStatusHistory(api: LarApiClient, caseId: number, change: Omit<StatusChange, 'changedAt' | 'changedBy'>): Promise<string> {
+  try {
+    await recordStatusChange(caseId, { ...change, changedBy: await api.getUserId() });
+    return "";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return messages().caseStatus.historyWarning(message);
+  }
+}
+
+function formatChange(change: StatusChange): string {
+  const t = messages().caseStatus;
+  const changedAt = formatDate(new Date(change.changedAt), { dateStyle: "medium", timeStyle: "short", timeZone: DEFAULT_TIME_ZONE });
+  const transition = change.from ? `${change.from} → ${change.to}` : t.createdAs(change.to);
+  const reason = change.reason ? t.reason(change.reason) : "";
+  const user = change.changedBy ? t.changedBy(change.changedBy) : "";
+  return `- ${changedAt}: ${transition}${reason}${user}`;
+}
+
+export function registerCaseStatusTools(server: McpServer, api: LarApiClient) {
+  server.tool(
+    'lar-change-case-status',
+    'Tool to move a case to a new status following the case lifecycle: Open and Pending can move to each other or to Closed, and Closed cases can only be reopened. Closing or reopening requires a reason.',
+    {
+      caseId: z.number().int().positive().describe('The ID of the case.'),
+      status: z.enum(CASE_STATUSES).describe('The new status of the case.'),
+      reason: z.string().optional().describe('Reason for the change; required when closing or reopening the case.'),
+    },
+    audited(api, 'lar-change-case-status', { entity: 'case', entityId: ({ caseId }) => caseId, snapshot: ({ caseId }) => api.getCase(caseId) },
+      async ({ caseId, status, reason }) => {
+        const t = messages();
+        let legalCase: Case;
+        try {
+          legalCase = await api.getCase(caseId);
+          validateTransition(legalCase.status, status, reason);
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            return errorResult(t.caseStatus.changeError, t.common.caseNotFound(caseId));
+          }
+          return errorResult(t.caseStatus.changeError, error);
+        }
+
+        try {
+          const caseData: CaseInput = {
+            title: legalCase.title,
+            description: legalCase.description,
+            status,
+            courtDate: legalCase.courtDate,
+            clientId: legalCase.clientId,
+            assignedUserId: legalCase.assignedUserId ?? await api.getUserId()
+          };
+          const updated = await api.updateCase(caseId, caseData);
+          const historyNote = await recordStatusHistory(api, caseId, { from: legalCase.status, to: status, reason });
+
+          return textResult(`${t.caseStatus.changed(caseId, legalCase.status, status)}${historyNote}`, { case: updated });
+        } catch (error) {
+          return errorResult(t.caseStatus.changeError, error);
+        }
+      }
+    )
+  );
+
+  server.tool(
+    'lar-case-status-history',
+    'Tool to get the timestamped status history of a case, with the reason for each change.',
+    {
+      caseId: z.number().int().positive().describe('The ID of the case.'),
+    },
+    async ({ caseId }) => {
+      const t = messages();
+      try {
+        const [legalCase, history] = await Promise.all([api.getCase(caseId), getStatusHistory(caseId)]);
+        if (history.length === 0) {
+          return textResult(t.caseStatus.noHistory(caseId, legalCase.status), { status: legalCase.status, history });
+        }
+        return textResult(
+          `${t.caseStatus.history(caseId, legalCase.status)}\n\n${history.map(formatChange).join("\n")}`,
+          { status: legalCase.status, history }
+        );
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return errorResult(t.caseStatus.historyError, t.common.caseNotFound(caseId));
+        }
+        return errorResult(t.caseStatus.historyError, error);
+      }
+    }
+  );
+
+  server.tool(
+    'lar-list-stale-pending-cases',
+    'Tool to list the cases that have been in Pending status for longer than a threshold in days.',
+    {
+      days: z.number().int().min(1).optional().describe('Threshold in days. Defaults to the server configuration (30 days).'),
+    },
+    async ({ days }) => {
+      const t = messages().caseStatus;
+      const threshold = days ?? getPendingThreshold();
+      try {
+        const [cases, history] = await Promise.all([api.listCases(), getAllStatusHistory()]);
+        const now = Date.now();
+
+        const stale: { case: Case; pendingSince: string; days: number }[] = [];
+        const unknown: Case[] = [];
+        for (const legalCase of cases.filter(item => item.status === 'Pending')) {
+          const since = statusSince(history[legalCase.id] ?? [], 'Pending');
+          if (!since) {
+            unknown.push(legalCase);
+            continue;
+          }
+          const elapsed = now - since.getTime();
+          if (elapsed > threshold * DAY_MS) {
+            stale.push({ case: legalCase, pendingSince: since.toISOString(), days: Math.floor(elapsed / DAY_MS) });
+          }
+        }
+        stale.sort((a, b) => b.days - a.days);
+
+        const lines = stale.length > 0
+          ? stale.map(item => t.staleCase(item.case.id, item.case.title, item.case.clientId, item.days, formatDay(item.pendingSince.slice(0, 10))))
+          : [t.noStale(threshold)];
+        const unknownNote = unknown.length > 0
+          ? `\n\n${t.unknownSince(unknown.map(item => `#${item.id}`).join(", "))}`
+          : "";
+
+        return textResult(`${t.stale(threshold)}\n\n${lines.join("\n")}${unknownNote}`, {
+          threshold,
+          cases: stale,
+          unknownSince: unknown.map(item => item.id)
+        });
+      } catch (error) {
+        return errorResult(t.staleError, error);
+      }
+    }
+  );
+}
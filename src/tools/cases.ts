@@ -0,0 +1,337 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { LarApiClient } from "../api/client.js";
+import { NotFoundError } from "../api/errors.js";
+import { CASE_STATUSES, Case, CaseInput, Client, Document } from "../api/types.js";
+import { formatDay, messages } from "../i18n/index.js";
+import { DEFAULT_TIME_ZONE, courtDay } from "../utils/calendar.js";
+import { CaseDeadline, forgetCaseDeadlines, listCaseDeadlines, rescheduleCaseDeadlines } from "../utils/caseDeadlines.js";
+import { caseDocumentLinks, getCaseDocuments } from "../utils/caseDocuments.js";
+import { StatusChange, forgetStatusHistory, getStatusHistory, validateTransition } from "../utils/caseStatus.js";
+import { audited } from "./audit.js";
+import { recordStatusHistory } from "./caseStatus.js";
+import { DeletionPreview, confirmDeletion, confirmationArgs } from "./confirmation.js";
+import { listingArgs, listingResult, matchesText, paginate, sortBy } from "./listing.js";
+import { errorResult, textResult } from "./results.js";
+
+function parseCourtDate(courtDate: string): string | undefined {
+  const date = new Date(courtDate);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Si cambia el día de la vista, recalcula los plazos guardados que se
+ * contaban desde él. El caso ya está actualizado, así que un fallo aquí se
+ * indica en la respuesta en lugar de devolver un error.
+ */
+async function rescheduleDeadlines(caseId: number, previousCourtDate: string | undefined, courtDate: string): Promise<string> {
+  const t = messages().cases;
+  const previousDay = previousCourtDate ? courtDay(new Date(previousCourtDate), DEFAULT_TIME_ZONE) : undefined;
+  const day = courtDay(new Date(courtDate), DEFAULT_TIME_ZONE);
+  if (day === previousDay) {
+    return "";
+  }
+  try {
+    const rescheduled = await rescheduleCaseDeadlines(caseId, previousDay, day);
+    return rescheduled.length > 0 ? t.deadlinesRescheduled(rescheduled.length, day) : "";
+  } catch (error) {
+    return t.deadlinesNotRescheduled(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** Una fecha sin hora como límite superior incluye el día completo. */
+function endOfDay(date: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T23:59:59.999Z` : date;
+}
+
+/** Marca de tiempo de la vista; NaN si el caso no tiene fecha, así no pasa ningún filtro. */
+function courtTime(legalCase: Case): number {
+  return legalCase.courtDate ? Date.parse(legalCase.courtDate) : NaN;
+}
+
+function summarizeCase(legalCase: Case): string {
+  const date = legalCase.courtDate ? new Date(legalCase.courtDate) : undefined;
+  // El mismo día que muestra el calendario de vistas, no el día en UTC.
+  const day = date && !isNaN(date.getTime()) ? formatDay(courtDay(date, DEFAULT_TIME_ZONE), { dateStyle: "medium" }) : undefined;
+  return messages().cases.summary(legalCase.id, legalCase.status, legalCase.title, legalCase.clientId, day);
+}
+
+interface CaseDeletion {
+  legalCase: Case;
+  client: Client | null;
+  documents: Document[];
+  deadlines: CaseDeadline[];
+  history: StatusChange[];
+}
+
+async function loadCaseDeletion(api: LarApiClient, caseId: number): Promise<CaseDeletion> {
+  const legalCase = await api.getCase(caseId);
+  const [client, documents, deadlines, history] = await Promise.all([
+    api.getClient(legalCase.clientId).catch(() => null),
+    getCaseDocuments(api, legalCase),
+    listCaseDeadlines(caseId),
+    getStatusHistory(caseId)
+  ]);
+  return { legalCase, client, documents, deadlines, history };
+}
+
+/** Lo que se elimina con el caso: si cambia tras la vista previa, el token deja de valer. */
+function caseDeletionRecords({ legalCase, documents, deadlines }: CaseDeletion) {
+  return {
+    caseId: legalCase.id,
+    documents: documents.map(document => document.id).sort((a, b) => a - b),
+    deadlines: deadlines.map(deadline => deadline.id).sort((a, b) => a - b)
+  };
+}
+
+function previewCaseDeletion({ legalCase, client, documents, deadlines, history }: CaseDeletion): DeletionPreview {
+  const documentList = documents.length > 0
+    ? ` (${documents.map(document => `#${document.id} ${document.name}`).join(", ")})`
+    : "";
+  const t = messages().cases;
+  const text = [
+    t.deletePreview(summarizeCase(legalCase)),
+    t.previewClient(client ? `${client.name} (#${client.id})` : String(legalCase.clientId)),
+    t.previewDocuments(documents.length, documentList),
+    t.previewDeadlines(deadlines.length),
+    t.previewHistory(history.length)
+  ].join("\n");
+
+  return {
+    text,
+    details: { case: legalCase, client, documents, deadlines: deadlines.length, statusHistory: history.length }
+  };
+}
+
+export function registerCaseTools(server: McpServer, api: LarApiClient) {
+  server.tool(
+    'lar-list-cases',
+    'Tool to list cases in the Legal Assistant RAG system, with filters, sorting and pagination.',
+    {
+      status: z.enum(CASE_STATUSES).optional().describe('Only cases with this status.'),
+      clientId: z.number().int().positive().optional().describe('Only cases of this client.'),
+      courtDateFrom: z.string().optional().describe('Only cases with a court date on or after this date (YYYY-MM-DD or ISO 8601).'),
+      courtDateTo: z.string().optional().describe('Only cases with a court date on or before this date (YYYY-MM-DD or ISO 8601).'),
+      search: z.string().optional().describe('Text to search for in the title and description (case-insensitive).'),
+      sortBy: z.enum(['id', 'title', 'status', 'courtDate']).default('id').describe('Field to sort by.'),
+      ...listingArgs,
+    },
+    async ({ status, clientId, courtDateFrom, courtDateTo, search, sortBy: sortField, ...options }) => {
+      const t = messages();
+      const from = courtDateFrom ? Date.parse(courtDateFrom) : undefined;
+      const to = courtDateTo ? Date.parse(endOfDay(courtDateTo)) : undefined;
+      if (Number.isNaN(from) || Number.isNaN(to)) {
+        return errorResult(t.cases.listError, t.common.invalidDate);
+      }
+
+      try {
+        const cases = (await api.listCases()).filter(legalCase =>
+          (!status || legalCase.status === status) &&
+          (!clientId || legalCase.clientId === clientId) &&
+          (from === undefined || courtTime(legalCase) >= from) &&
+          (to === undefined || courtTime(legalCase) <= to) &&
+          matchesText(search, legalCase.title, legalCase.description)
+        );
+
+        const sorted = sortBy(cases, legalCase => sortField === 'courtDate'
+          ? (legalCase.courtDate ? courtTime(legalCase) : undefined)
+          : legalCase[sortField], options.sortOrder);
+
+        return listingResult(
+          paginate(sorted, options),
+          options,
+          {
+            plural: t.cases.plural,
+            empty: status || clientId || courtDateFrom || courtDateTo || search
+              ? t.cases.noneMatching
+              : t.cases.none
+          },
+          summarizeCase,
+          "cases"
+        );
+      } catch (error) {
+        return errorResult(t.cases.listError, error);
+      }
+    }
+  );
+
+  server.tool(
+    'lar-get-case',
+    'Tool to get one case by ID, together with its client\'s details, its linked documents and its saved deadlines.',
+    {
+      caseId: z.number().int().positive().describe('The ID of the case to get.'),
+    },
+    async ({ caseId }) => {
+      const t = messages();
+      try {
+        const legalCase = await api.getCase(caseId);
+        const [client, documents, deadlines] = await Promise.all([
+          api.getClient(legalCase.clientId).catch(error => {
+            // Un caso cuyo cliente ya no existe se muestra igualmente.
+            if (error instanceof NotFoundError) return null;
+            throw error;
+          }),
+          getCaseDocuments(api, legalCase),
+          listCaseDeadlines(caseId)
+        ]);
+        const record = { ...legalCase, client, documents, deadlines };
+
+        return textResult(JSON.stringify(record, null, 2), { case: record });
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return errorResult(t.cases.getError, t.common.caseNotFound(caseId));
+        }
+        return errorResult(t.cases.getError, error);
+      }
+    }
+  );
+
+  server.tool(
+    'lar-create-case',
+    'Tool to create a new legal case in the system.',
+    {
+      title: z.string().describe('The title of the case.'),
+      description: z.string().optional().describe('Description of the case (optional).'),
+      status: z.enum(CASE_STATUSES).default('Open').describe('Status of the case (Open, Closed, or Pending).'),
+      courtDate: z.string().optional().describe('Court date in ISO format (YYYY-MM-DD or YYYY-MM-DDTHH:MM:SS±HH:MM) if applicable.'),
+      clientId: z.number().int().positive().describe('The ID of the client associated with this case.'),
+      reason: z.string().optional().describe('Reason for the initial status. Required when the case is created as Closed.'),
+    },
+    audited(api, 'lar-create-case', { entity: 'case', resultKey: 'case', entityId: (_, result) => (result.case as Case | undefined)?.id },
+      async ({ title, description, status, courtDate, clientId, reason }) => {
+        const t = messages();
+        // Crear un caso ya cerrado equivale a cerrarlo, que exige motivo.
+        if (status === 'Closed' && !reason?.trim()) {
+          return errorResult(t.cases.createError, t.caseStatus.closeReason);
+        }
+        try {
+          const caseData: CaseInput = {
+            title: title,
+            assignedUserId: await api.getUserId(),
+            clientId: clientId,
+            status: status
+          };
+
+          if (description) caseData.description = description;
+
+          if (courtDate) {
+            caseData.courtDate = parseCourtDate(courtDate);
+            if (!caseData.courtDate) {
+              return errorResult(t.cases.createError, t.common.invalidDate);
+            }
+          }
+
+          const created = await api.createCase(caseData);
+          const historyNote = await recordStatusHistory(api, created.id, { from: null, to: created.status ?? status, reason: reason?.trim() || undefined });
+          return textResult(`${t.cases.created}${historyNote}`, { case: created });
+        } catch (error) {
+          return errorResult(t.cases.createError, error);
+        }
+      }
+    )
+  );
+
+  server.tool(
+    'lar-delete-case',
+    'Tool to delete a legal case from the system. The first call returns a preview of what will be removed and a confirmation token; the case is only deleted when the token is passed back, or when the user confirms directly if the client supports it.',
+    {
+      caseId: z.number().int().positive().describe('The ID of the case to delete.'),
+      ...confirmationArgs,
+    },
+    audited(api, 'lar-delete-case', { entity: 'case', entityId: ({ caseId }) => caseId, snapshot: ({ caseId }) => api.getCase(caseId) },
+      async ({ caseId, confirmationToken }, extra) => {
+        const t = messages();
+        try {
+          const deletion = await loadCaseDeletion(api, caseId);
+          const confirmation = await confirmDeletion(server, extra, {
+            tool: 'lar-delete-case',
+            target: caseId,
+            records: caseDeletionRecords(deletion),
+            token: confirmationToken,
+            context: t.cases.deleteError,
+            preview: async () => previewCaseDeletion(deletion)
+          });
+          if (!confirmation.confirmed) {
+            return confirmation.result;
+          }
+
+          await api.deleteCase(caseId);
+          await caseDocumentLinks(api).forget({ caseId }).catch(() => {});
+          await forgetCaseDeadlines(caseId).catch(() => {});
+          await forgetStatusHistory(caseId).catch(() => {});
+          return textResult(t.cases.deleted(caseId));
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            return errorResult(t.cases.deleteError, t.common.caseNotFound(caseId));
+          }
+          return errorResult(t.cases.deleteError, error);
+        }
+      }
+    )
+  );
+
+  server.tool(
+    'lar-edit-case',
+    'Tool to edit an existing legal case in the system.',
+    {
+      caseId: z.number().int().positive().describe('The ID of the case to edit.'),
+      title: z.string().optional().describe('The new title of the case.'),
+      description: z.string().optional().describe('New description of the case.'),
+      status: z.enum(CASE_STATUSES).optional().describe('New status of the case (Open, Closed, or Pending). Closed cases can only be reopened.'),
+      statusReason: z.string().optional().describe('Reason for the status change; required when closing or reopening the case.'),
+      courtDate: z.string().optional().describe('New court date in ISO format (YYYY-MM-DD or YYYY-MM-DDTHH:MM:SS±HH:MM).'),
+      clientId: z.number().int().positive().optional().describe('The ID of the client to associate with this case.'),
+      assignedUserId: z.number().int().positive().optional().describe('The ID of the user to assign to this case (leave empty to assign to current user).'),
+    },
+    audited(api, 'lar-edit-case', { entity: 'case', entityId: ({ caseId }) => caseId, snapshot: ({ caseId }) => api.getCase(caseId) },
+      async ({ caseId, title, description, status, statusReason, courtDate, clientId, assignedUserId }) => {
+        const t = messages();
+        let currentCase;
+        try {
+          currentCase = await api.getCase(caseId);
+        } catch (error) {
+          return errorResult(t.cases.getForEditError, error);
+        }
+
+        const statusChanged = status !== undefined && status !== currentCase.status;
+        if (statusChanged) {
+          try {
+            validateTransition(currentCase.status, status, statusReason);
+          } catch (error) {
+            return errorResult(t.cases.updateError, error);
+          }
+        }
+
+        try {
+          const updatedCaseData: CaseInput = {
+            title: title || currentCase.title,
+            description: description !== undefined ? description : currentCase.description,
+            status: status || currentCase.status,
+            clientId: clientId || currentCase.clientId,
+            assignedUserId: assignedUserId || (await api.getUserId())
+          };
+
+          if (courtDate) {
+            updatedCaseData.courtDate = parseCourtDate(courtDate);
+            if (!updatedCaseData.courtDate) {
+              return errorResult(t.cases.updateError, t.common.invalidDate);
+            }
+          } else if (currentCase.courtDate) {
+            updatedCaseData.courtDate = currentCase.courtDate;
+          }
+
+          const updated = await api.updateCase(caseId, updatedCaseData);
+          const historyNote = statusChanged
+            ? await recordStatusHistory(api, caseId, { from: currentCase.status, to: status, reason: statusReason })
+            : "";
+          const deadlinesNote = updatedCaseData.courtDate
+            ? await rescheduleDeadlines(caseId, currentCase.courtDate, updatedCaseData.courtDate)
+            : "";
+          return textResult(`${t.cases.updated(caseId)}${historyNote}${deadlinesNote}`, { case: updated });
+        } catch (error) {
+          return errorResult(t.cases.updateError, error);
+        }
+      }
+    )
+  );
+}
@@ -0,0 +1,250 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { LarApiClient } from "../api/client.js";
+import { NotFoundError, ValidationError } from "../api/errors.js";
+import { Client, ClientInput } from "../api/types.js";
+import { messages } from "../i18n/index.js";
+import {
+  CASE_STRATEGIES,
+  ClientDeletionPlan,
+  DeletionOutcome,
+  buildClientDeletionPlan,
+  clientDeletionRecords,
+  describeClientDeletionPlan,
+  executeClientDeletionPlan
+} from "../utils/clientDeletion.js";
+import { audited } from "./audit.js";
+import { DeletionPreview, confirmDeletion, confirmationArgs } from "./confirmation.js";
+import { createProgressReporter } from "./progress.js";
+import { listingArgs, listingResult, matchesText, paginate, sortBy } from "./listing.js";
+import { errorResult, textResult } from "./results.js";
+
+function previewClientDeletion(api: LarApiClient, plan: ClientDeletionPlan): DeletionPreview {
+  const { client, cases, strategy } = plan;
+  const t = messages().clients;
+  const lines = [
+    t.deletePreview(client.id, client.name, client.contactInformation),
+    t.caseCount(cases.length),
+    ...cases.map(legalCase => `  - #${legalCase.id} [${legalCase.status}] ${legalCase.title}`)
+  ];
+
+  if (strategy && cases.length > 0) {
+    lines.push(
+      "",
+      t.plan(t.strategies[strategy]),
+      ...describeClientDeletionPlan(api, plan).map((step, index) => `${index + 1}. ${step}`)
+    );
+    if (strategy === 'cascade') {
+      lines.push(t.cascadeWarning);
+    }
+  }
+
+  return { text: lines.join("\n"), details: { client, cases, strategy: strategy ?? null } };
+}
+
+function deletionReport(plan: ClientDeletionPlan, outcome: DeletionOutcome): CallToolResult {
+  const t = messages().clients;
+  const rows = outcome.steps.map((step, index) => {
+    const detail = step.error ? `${t.steps[step.status]}: ${step.error}` : t.steps[step.status];
+    return `| ${index + 1} | ${step.description.replace(/\|/g, "\\|")} | ${detail.replace(/\|/g, "\\|")} |`;
+  });
+
+  const summary = outcome.deleted
+    ? t.deletedReport(plan.client.id, plan.client.name)
+    : t.notDeleted(plan.client.id, plan.client.name);
+  const lost = outcome.deleted ? [] : outcome.steps.filter(step => step.status === 'done' && step.caseId !== undefined);
+  const lostNote = lost.length > 0
+    ? `\n\n${t.lostCases(lost.map(step => `#${step.caseId}`).join(", "))}`
+    : "";
+
+  const text = [summary, "", t.stepsTable, ...rows].join("\n") + lostNote;
+  return { ...textResult(text, { deleted: outcome.deleted, steps: outcome.steps }), isError: !outcome.deleted };
+}
+
+export function registerClientTools(server: McpServer, api: LarApiClient) {
+  server.tool(
+    'lar-list-clients',
+    'Tool to list the clients in Legal Assistant RAG, with text search, sorting and pagination.',
+    {
+      search: z.string().optional().describe('Text to search for in the name, contact information, address and notes (case-insensitive).'),
+      sortBy: z.enum(['id', 'name']).default('name').describe('Field to sort by.'),
+      ...listingArgs,
+    },
+    async ({ search, sortBy: sortField, ...options }) => {
+      const t = messages().clients;
+      try {
+        const clients = (await api.listClients()).filter(client =>
+          matchesText(search, client.name, client.contactInformation, client.address, client.notes)
+        );
+
+        return listingResult(
+          paginate(sortBy(clients, client => client[sortField], options.sortOrder), options),
+          options,
+          {
+            plural: t.plural,
+            empty: search ? t.noneMatching : t.none
+          },
+          client => `#${client.id} ${client.name} - ${client.contactInformation}`,
+          "clients"
+        );
+      } catch (error) {
+        return errorResult(t.listError, error);
+      }
+    }
+  );
+
+  server.tool(
+    'lar-get-client',
+    'Tool to get one client by ID, together with all of its cases.',
+    {
+      clientId: z.number().int().positive().describe('The ID of the client to get.'),
+    },
+    async ({ clientId }) => {
+      const t = messages();
+      try {
+        const [client, cases] = await Promise.all([
+          api.getClient(clientId),
+          api.listCases()
+        ]);
+        const record = { ...client, cases: cases.filter(legalCase => legalCase.clientId === clientId) };
+
+        return textResult(JSON.stringify(record, null, 2), { client: record });
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return errorResult(t.clients.getError, t.common.clientNotFound(clientId));
+        }
+        return errorResult(t.clients.getError, error);
+      }
+    }
+  );
+
+  server.tool(
+    'lar-create-client',
+    'Tool to create a new client in the Legal Assistant RAG system.',
+    {
+      name: z.string().describe('The name of the client.'),
+      contactInformation: z.string().describe('Contact information for the client (phone, email, etc.).'),
+      address: z.string().optional().describe('The address of the client (optional).'),
+      notes: z.string().optional().describe('Additional notes about the client (optional).'),
+    },
+    audited(api, 'lar-create-client', { entity: 'client', resultKey: 'client', entityId: (_, result) => (result.client as Client | undefined)?.id },
+      async ({ name, contactInformation, address, notes }) => {
+        const t = messages().clients;
+        try {
+          const clientData: ClientInput = {
+            idUser: await api.getUserId(),
+            name: name,
+            contactInformation: contactInformation,
+          };
+
+          if (address) clientData.address = address;
+          if (notes) clientData.notes = notes;
+
+          const client = await api.createClient(clientData);
+          return textResult(t.created, { client });
+        } catch (error) {
+          return errorResult(t.createError, error);
+        }
+      }
+    )
+  );
+
+  server.tool(
+    'lar-delete-client',
+    'Tool to delete a client from the system. A client with cases needs a caseStrategy: reassign the cases to another client, archive them (close them and move them to another client) or cascade-delete them. The first call returns a preview of the client, its cases and the plan, and a confirmation token; the plan is only executed when the token is passed back, or when the user confirms directly if the client supports it. Failed plans are rolled back where possible.',
+    {
+      clientId: z.number().int().positive().describe('The ID of the client to delete.'),
+      caseStrategy: z.enum(CASE_STRATEGIES).optional().describe('What to do with the client\'s cases: "reassign", "archive" or "cascade".'),
+      targetClientId: z.number().int().positive().optional().describe('The client that receives the cases with "reassign" or "archive".'),
+      reason: z.string().optional().describe('Reason recorded when closing the cases with "archive".'),
+      ...confirmationArgs,
+    },
+    audited(api, 'lar-delete-client', { entity: 'client', entityId: ({ clientId }) => clientId, snapshot: ({ clientId }) => api.getClient(clientId) },
+      async ({ clientId, caseStrategy, targetClientId, reason, confirmationToken }, extra) => {
+        const t = messages();
+        try {
+          const plan = await buildClientDeletionPlan(api, clientId, { strategy: caseStrategy, targetClientId, reason });
+          const confirmation = await confirmDeletion(server, extra, {
+            tool: 'lar-delete-client',
+            target: `${clientId}:${caseStrategy ?? ""}:${targetClientId ?? ""}`,
+            records: clientDeletionRecords(plan),
+            token: confirmationToken,
+            context: t.clients.deleteError,
+            preview: async () => previewClientDeletion(api, plan)
+          });
+          if (!confirmation.confirmed) {
+            return confirmation.result;
+          }
+
+          if (plan.cases.length === 0) {
+            await api.deleteClient(clientId);
+            return textResult(t.clients.deleted(clientId));
+          }
+
+          const outcome = await executeClientDeletionPlan(api, plan, {
+            signal: extra.signal,
+            onStep: createProgressReporter(extra)
+          });
+          return deletionReport(plan, outcome);
+        } catch (error) {
+          if (error instanceof ValidationError && error.body.includes("associated cases")) {
+            return errorResult(t.clients.deleteError, t.clients.hasCases);
+          }
+          if (error instanceof NotFoundError) {
+            return errorResult(t.clients.deleteError, t.common.clientNotFound(clientId));
+          }
+          return errorResult(t.clients.deleteError, error);
+        }
+      }
+    )
+  );
+
+  server.tool(
+    'lar-edit-client',
+    'Tool to edit an existing client in the system.',
+    {
+      clientId: z.number().int().positive().describe('The ID of the client to edit.'),
+      name: z.string().optional().describe('The new name of the client.'),
+      contactInformation: z.string().optional().describe('New contact information for the client (phone, email, etc.).'),
+      address: z.string().optional().describe('New address of the client.'),
+      notes: z.string().optional().describe('New additional notes about the client.'),
+    },
+    audited(api, 'lar-edit-client', { entity: 'client', entityId: ({ clientId }) => clientId, snapshot: ({ clientId }) => api.getClient(clientId) },
+      async ({ clientId, name, contactInformation, address, notes }) => {
+        const t = messages().clients;
+        let currentClient;
+        try {
+          currentClient = await api.getClient(clientId);
+        } catch (error) {
+          return errorResult(t.getForEditError, error);
+        }
+
+        try {
+          const updatedClientData: ClientInput = {
+            idUser: await api.getUserId(),
+            name: name !== undefined ? name : currentClient.name,
+            contactInformation: contactInformation !== undefined ? contactInformation : currentClient.contactInformation
+          };
+
+          if (address !== undefined) {
+            updatedClientData.address = address;
+          } else if (currentClient.address) {
+            updatedClientData.address = currentClient.address;
+          }
+
+          if (notes !== undefined) {
+            updatedClientData.notes = notes;
+          } else if (currentClient.notes) {
+            updatedClientData.notes = currentClient.notes;
+          }
+
+          const client = await api.updateClient(clientId, updatedClientData);
+          return textResult(t.updated(clientId), { client });
+        } catch (error) {
+          return errorResult(t.updateError, error);
+        }
+      }
+    )
+  );
+}
@@ -0,0 +1,116 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { callerId } from "../http/backendSessions.js";
+import { messages } from "../i18n/index.js";
+import { ConfirmationError, ConfirmedOperation, confirmations, recordsDigest } from "../utils/confirmations.js";
+import { ToolExtra } from "./progress.js";
+import { errorResult, textResult } from "./results.js";
+
+export const confirmationArgs = {
+  confirmationToken: z.string().optional().describe('Token returned by a previous call with the preview. Omit it to get the preview; pass it to perform the deletion.'),
+};
+
+export interface DeletionPreview {
+  text: string;
+  details: Record<string, unknown>;
+}
+
+export interface DeletionRequest {
+  tool: string;
+  target: string | number;
+  /**
+   * IDs de los registros que se eliminarán, calculados en cada llamada. El
+   * token solo vale si coinciden con los de la vista previa.
+   */
+  records: unknown;
+  token?: string;
+  /** Prefijo de los mensajes de error, como en errorResult. */
+  context: string;
+  preview: () => Promise<DeletionPreview>;
+}
+
+export type ConfirmationOutcome =
+  | { confirmed: true }
+  | { confirmed: false; result: CallToolResult };
+
+/**
+ * Pregunta directamente al usuario mediante elicitación. Devuelve undefined
+ * si el cliente no la admite o falla, para recurrir al token.
+ */
+async function elicitConfirmation(server: McpServer, extra: ToolExtra, preview: DeletionPreview): Promise<boolean | undefined> {
+  if (!server.server.getClientCapabilities()?.elicitation) {
+    return undefined;
+  }
+  const t = messages().confirmation;
+  try {
+    const response = await server.server.elicitInput({
+      message: `${preview.text}\n\n${t.question}`,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: {
+            type: "boolean",
+            title: t.fieldTitle,
+            description: t.fieldDescription
+          }
+        },
+        required: ["confirm"]
+      }
+    }, { relatedRequestId: extra.requestId, signal: extra.signal });
+    return response.action === "accept" && response.content?.confirm === true;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Borrado en dos fases. Sin token se genera la vista previa y, si el cliente
+ * admite elicitación, se pide la confirmación al usuario en el momento; si no,
+ * se devuelve un token de un solo uso y caducidad corta que hay que enviar en
+ * una segunda llamada. Los errores de la vista previa se propagan para que
+ * cada herramienta los trate como siempre.
+ */
+export async function confirmDeletion(server: McpServer, extra: ToolExtra, request: DeletionRequest): Promise<ConfirmationOutcome> {
+  const operation: ConfirmedOperation = {
+    action: request.tool,
+    target: request.target,
+    caller: callerId(extra.authInfo),
+    records: recordsDigest(request.records)
+  };
+
+  if (request.token !== undefined) {
+    try {
+      confirmations.consume(request.token, operation);
+      return { confirmed: true };
+    } catch (error) {
+      if (error instanceof ConfirmationError) {
+        return { confirmed: false, result: errorResult(request.context, error) };
+      }
+      throw error;
+    }
+  }
+
+  const preview = await request.preview();
+
+  const elicited = await elicitConfirmation(server, extra, preview);
+  if (elicited === true) {
+    return { confirmed: true };
+  }
+  if (elicited === false) {
+    return {
+      confirmed: false,
+      result: textResult(messages().confirmation.cancelled, { cancelled: true, preview: preview.details })
+    };
+  }
+
+  const { token, expiresAt } = confirmations.issue(operation);
+  const minutes = Math.max(1, Math.round((expiresAt.getTime() - Date.now()) / 60000));
+  return {
+    confirmed: false,
+    result: textResult(
+      `${preview.text}\n\n${messages().confirmation.pending(request.tool, token, minutes)}`,
+      { preview: preview.details, confirmationToken: token, expiresAt: expiresAt.toISOString() }
+    )
+  };
+}
@@ -0,0 +1,173 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { LarApiClient } from "../api/client.js";
+import { NotFoundError } from "../api/errors.js";
+import { getConfig } from "../config.js";
+import { formatDay, messages } from "../i18n/index.js";
+import { DEFAULT_TIME_ZONE, courtDay } from "../utils/calendar.js";
+import { addCaseDeadlines, listCaseDeadlines, removeCaseDeadline } from "../utils/caseDeadlines.js";
+import {
+  ComputedDeadline,
+  DeadlineCalendar,
+  computeDeadlines,
+  describeRule
+} from "../utils/deadlines.js";
+import { HOLIDAY_CALENDAR_CODES } from "../utils/holidays.js";
+import { audited } from "./audit.js";
+import { errorResult, textResult } from "./results.js";
+
+const ruleSchema = z.object({
+  amount: z.number().int().min(1).max(365).describe('Number of days.'),
+  unit: z.enum(['calendar', 'business']).describe('"business" skips weekends, holidays and, if configured, August; "calendar" counts every day.'),
+  direction: z.enum(['before', 'after']).describe('Whether the deadline falls before or after the reference date.'),
+  label: z.string().optional().describe('Name of the deadline, e.g. "Presentar escrito de prueba".'),
+});
+
+const calendarArgs = {
+  rules: z.array(ruleSchema).min(1).max(20).describe('Deadline rules to compute, e.g. 10 business days before.'),
+  calendars: z.array(z.enum(HOLIDAY_CALENDAR_CODES)).optional().describe(`Holiday calendars to apply (${HOLIDAY_CALENDAR_CODES.join(', ')}). Defaults to the server configuration.`),
+  extraHolidays: z.array(z.string()).optional().describe('Additional non-working days, as YYYY-MM-DD or MM-DD for every year (e.g. local holidays).'),
+  augustNonWorking: z.boolean().optional().describe('Treat August as a non-working month. Defaults to the server configuration.'),
+};
+
+function resolveCalendar(calendars?: string[], extraHolidays?: string[], augustNonWorking?: boolean): DeadlineCalendar {
+  const defaults = getConfig().deadlines;
+  return {
+    calendars: calendars ?? defaults.calendars,
+    extraHolidays: [...defaults.extraHolidays, ...(extraHolidays ?? [])],
+    augustNonWorking: augustNonWorking ?? defaults.augustNonWorking
+  };
+}
+
+/** Día de la vista del caso, que sirve de referencia si no se indica otra fecha. */
+async function caseAnchor(api: LarApiClient, caseId: number): Promise<string> {
+  const legalCase = await api.getCase(caseId);
+  if (!legalCase.courtDate) {
+    throw new Error(messages().deadlines.noCourtDate(caseId));
+  }
+  return courtDay(new Date(legalCase.courtDate), DEFAULT_TIME_ZONE);
+}
+
+function formatDeadline(deadline: ComputedDeadline): string {
+  const t = messages().deadlines;
+  const weekday = formatDay(deadline.date, { weekday: "long" });
+  const label = deadline.rule.label ? `${deadline.rule.label}: ` : "";
+  const moved = deadline.movedFrom ? t.movedFrom(deadline.movedFrom) : "";
+  const skipped = deadline.skipped.length > 0 ? t.skipped(deadline.skipped.length) : "";
+  return `- ${label}${t.rule(describeRule(deadline.rule), deadline.anchor)} → ${deadline.date} (${weekday})${moved}${skipped}`;
+}
+
+export function registerDeadlineTools(server: McpServer, api: LarApiClient) {
+  server.tool(
+    'lar-calculate-deadline',
+    'Tool to compute procedural deadlines from a case\'s court date or any date, in calendar or business days, excluding weekends, holiday calendars and optionally August.',
+    {
+      caseId: z.number().int().positive().optional().describe('The ID of a case whose court date is the reference date.'),
+      date: z.string().optional().describe('Reference date (YYYY-MM-DD) when no case is given.'),
+      ...calendarArgs,
+    },
+    async ({ caseId, date, rules, calendars, extraHolidays, augustNonWorking }) => {
+      const t = messages();
+      if ((caseId === undefined) === (date === undefined)) {
+        return errorResult(t.deadlines.calculateError, t.deadlines.caseOrDate);
+      }
+
+      try {
+        const anchor = date ?? await caseAnchor(api, caseId!);
+        const deadlines = computeDeadlines(anchor, rules, resolveCalendar(calendars, extraHolidays, augustNonWorking));
+        return textResult(`${t.deadlines.calculated}\n\n${deadlines.map(formatDeadline).join("\n")}`, { deadlines });
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return errorResult(t.deadlines.calculateError, t.common.caseNotFound(caseId!));
+        }
+        return errorResult(t.deadlines.calculateError, error);
+      }
+    }
+  );
+
+  server.tool(
+    'lar-add-case-deadlines',
+    'Tool to compute procedural deadlines for a case and save them with the case. The reference date is the case\'s court date unless another date is given.',
+    {
+      caseId: z.number().int().positive().describe('The ID of the case.'),
+      date: z.string().optional().describe('Reference date (YYYY-MM-DD). Defaults to the case\'s court date.'),
+      ...calendarArgs,
+    },
+    audited(api, 'lar-add-case-deadlines', { entity: 'case', entityId: ({ caseId }) => caseId, snapshot: ({ caseId }) => listCaseDeadlines(caseId) },
+      async ({ caseId, date, rules, calendars, extraHolidays, augustNonWorking }) => {
+        const t = messages();
+        try {
+          const anchor = date ?? await caseAnchor(api, caseId);
+          if (date !== undefined) {
+            await api.getCase(caseId);
+          }
+
+          const calendar = resolveCalendar(calendars, extraHolidays, augustNonWorking);
+          const computed = computeDeadlines(anchor, rules, calendar);
+          const added = await addCaseDeadlines(caseId, computed, { calendar, fromCourtDate: date === undefined }, deadline => describeRule(deadline.rule));
+          return textResult(
+            `${t.deadlines.added(caseId)}\n\n${computed.map(formatDeadline).join("\n")}`,
+            { deadlines: added }
+          );
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            return errorResult(t.deadlines.addError, t.common.caseNotFound(caseId));
+          }
+          return errorResult(t.deadlines.addError, error);
+        }
+      }
+    )
+  );
+
+  server.tool(
+    'lar-list-case-deadlines',
+    'Tool to list the deadlines saved for a case, ordered by date.',
+    {
+      caseId: z.number().int().positive().describe('The ID of the case.'),
+    },
+    async ({ caseId }) => {
+      const t = messages();
+      try {
+        await api.getCase(caseId);
+        const deadlines = await listCaseDeadlines(caseId);
+        if (deadlines.length === 0) {
+          return textResult(t.deadlines.none(caseId), { deadlines });
+        }
+        const lines = deadlines.map(deadline => `#${deadline.id} ${deadline.date} - ${deadline.label} (${t.deadlines.rule(describeRule(deadline.rule), deadline.anchor)})`);
+        return textResult(`${t.deadlines.list(caseId)}\n\n${lines.join("\n")}`, { deadlines });
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return errorResult(t.deadlines.listError, t.common.caseNotFound(caseId));
+        }
+        return errorResult(t.deadlines.listError, error);
+      }
+    }
+  );
+
+  server.tool(
+    'lar-remove-case-deadline',
+    'Tool to remove a saved deadline from a case.',
+    {
+      caseId: z.number().int().positive().describe('The ID of the case.'),
+      deadlineId: z.number().int().positive().describe('The ID of the deadline to remove.'),
+    },
+    audited(api, 'lar-remove-case-deadline', { entity: 'case', entityId: ({ caseId }) => caseId, snapshot: ({ caseId }) => listCaseDeadlines(caseId) },
+      async ({ caseId, deadlineId }) => {
+        const t = messages();
+        try {
+          await api.getCase(caseId);
+          const removed = await removeCaseDeadline(caseId, deadlineId);
+          if (!removed) {
+            return errorResult(t.deadlines.removeError, t.deadlines.notFound(caseId, deadlineId));
+          }
+          return textResult(t.deadlines.removed(deadlineId, caseId));
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            return errorResult(t.deadlines.removeError, t.common.caseNotFound(caseId));
+          }
+          return errorResult(t.deadlines.removeError, error);
+        }
+      }
+    )
+  );
+}
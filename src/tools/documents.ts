@@ -0,0 +1,381 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { LarApiClient } from "../api/client.js";
+import { getConfig } from "../config.js";
+import { NotFoundError } from "../api/errors.js";
+import { Document } from "../api/types.js";
+import { formatDay, messages } from "../i18n/index.js";
+import { caseDocumentLinks, findCasesWithDocument, getCaseDocuments } from "../utils/caseDocuments.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { DocumentSource, defaultDocumentName, ingestDocument, listArchiveEntries } from "../utils/ingest.js";
+import { UploadError, decodeBase64Document, readLocalDocument } from "../utils/upload.js";
+import { audited } from "./audit.js";
+import { confirmDeletion, confirmationArgs } from "./confirmation.js";
+import { createProgressReporter, isAbortError } from "./progress.js";
+import { listingArgs, listingResult, paginate, sortBy } from "./listing.js";
+import { errorResult, textResult } from "./results.js";
+
+const MAX_ASK_CONCURRENCY = 3;
+const MAX_UPLOAD_CONCURRENCY = 4;
+
+function namePatternMatcher(pattern: string): (name: string) => boolean {
+  if (!/[*?]/.test(pattern)) {
+    const needle = pattern.toLocaleLowerCase();
+    return name => name.toLocaleLowerCase().includes(needle);
+  }
+  const source = pattern
+    .split("")
+    .map(char => char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&"))
+    .join("");
+  const regex = new RegExp(`^${source}$`, "i");
+  return name => regex.test(name);
+}
+
+export function registerDocumentTools(server: McpServer, api: LarApiClient) {
+  server.tool(
+    'lar-ask',
+    'Tool to answer questions about your documents using Legal Assistant RAG.',
+    {
+      message: z.string().describe('The question to ask the legal assistant.'),
+      fileId: z.number().int().positive().describe('The ID of the document to search in.'),
+    },
+    async ({ message, fileId }, extra) => {
+      const t = messages().documents;
+      try {
+        const reportProgress = createProgressReporter(extra);
+        const fullText = await api.askStreaming({ message, fileId }, {
+          signal: extra.signal,
+          onChunk: reportProgress
+        });
+
+        if (extra.signal.aborted) {
+          return errorResult(t.askError, t.cancelled);
+        }
+
+        return textResult(fullText || t.noResponse, {
+          question: message,
+          fileId: fileId
+        });
+      } catch (error) {
+        if (isAbortError(error)) {
+          return errorResult(t.askError, t.cancelled);
+        }
+        return errorResult(t.askError, error);
+      }
+    }
+  );
+
+  const maxAskDocuments = getConfig().documents.askMaxDocuments;
+  server.tool(
+    'lar-ask-documents',
+    'Tool to ask the same question across several documents, or across every document linked to a case, and get one combined answer attributed per document.',
+    {
+      message: z.string().describe('The question to ask the legal assistant.'),
+      fileIds: z.array(z.number().int().positive()).min(1).max(maxAskDocuments).optional().describe(`The IDs of the documents to search in (at most ${maxAskDocuments}).`),
+      caseId: z.number().int().positive().optional().describe(`The ID of a case whose linked documents will be searched (used when fileIds is not given; at most ${maxAskDocuments}).`),
+    },
+    async ({ message, fileIds, caseId }, extra) => {
+      const t = messages().documents;
+      try {
+        let ids = fileIds;
+        if (!ids && caseId !== undefined) {
+          ids = (await getCaseDocuments(api, caseId)).map(document => document.id);
+          if (ids.length === 0) {
+            return errorResult(t.askError, t.caseHasNoDocuments(caseId));
+          }
+        }
+        if (!ids) {
+          return errorResult(t.askError, t.fileIdsOrCaseId);
+        }
+        const uniqueIds = [...new Set(ids)];
+        if (uniqueIds.length > maxAskDocuments) {
+          return errorResult(t.askError, t.tooManyDocuments(uniqueIds.length, maxAskDocuments));
+        }
+
+        const names = new Map<number, string>();
+        try {
+          for (const document of await api.listFiles()) {
+            names.set(document.id, document.name);
+          }
+        } catch {
+          // Los nombres solo sirven para la atribución; se sigue con los IDs.
+        }
+
+        const reportProgress = createProgressReporter(extra);
+        let completed = 0;
+        const results = await mapWithConcurrency(uniqueIds, MAX_ASK_CONCURRENCY, async (id) => {
+          const answer = await api.askStreaming({ message, fileId: id }, { signal: extra.signal });
+          completed += 1;
+          await reportProgress(t.answered(id, completed, uniqueIds.length));
+          return answer;
+        });
+
+        if (extra.signal.aborted) {
+          return errorResult(t.askError, t.cancelled);
+        }
+
+        const answers = results.map((result, index) => {
+          const id = uniqueIds[index];
+          return result.status === "fulfilled"
+            ? { fileId: id, name: names.get(id), answer: result.value || t.noResponse }
+            : { fileId: id, name: names.get(id), error: result.reason instanceof Error ? result.reason.message : String(result.reason) };
+        });
+
+        const sections = answers.map(item => {
+          const body = "error" in item ? `${t.askError}: ${item.error}` : item.answer;
+          return `### ${t.title(item.fileId, item.name)}\n${body}`;
+        });
+
+        const failed = answers.filter(item => "error" in item).length;
+        return {
+          ...textResult(sections.join("\n\n"), { question: message, answers }),
+          isError: failed === answers.length
+        };
+      } catch (error) {
+        if (isAbortError(error)) {
+          return errorResult(t.askError, t.cancelled);
+        }
+        return errorResult(t.askError, error);
+      }
+    }
+  );
+
+  server.tool(
+    'lar-upload-document',
+    'Tool to upload a document to Legal Assistant RAG from a URL, a local file path (inside the allowed upload directories) or inline base64 content. Provide exactly one of url, path or contentBase64. PDF is uploaded as is; DOCX, HTML, plain text, PNG and JPEG are converted to PDF first.',
+    {
+      name: z.string().describe('The name to assign to the document, also used as its file name.'),
+      url: z.string().url().optional().describe('The URL of the document to upload.'),
+      path: z.string().optional().describe('Absolute path of a local file inside one of the allowed upload directories.'),
+      contentBase64: z.string().optional().describe('The document content encoded in base64 (a data URL is also accepted).'),
+      caseId: z.number().int().positive().optional().describe('The ID of a case to link the uploaded document to.'),
+    },
+    audited(api, 'lar-upload-document', { entity: 'document', resultKey: 'apiResponse', entityId: (_, result) => (result.apiResponse as Document | undefined)?.id },
+      async ({ name, url, path, contentBase64, caseId }) => {
+        const t = messages();
+        const sources = [url, path, contentBase64].filter(source => source !== undefined);
+        if (sources.length !== 1) {
+          return errorResult(t.documents.uploadError, t.documents.oneSource);
+        }
+
+        try {
+          if (caseId !== undefined) {
+            await api.getCase(caseId);
+          }
+
+          const source = url !== undefined ? { url } : path !== undefined ? { path } : { contentBase64: contentBase64! };
+          const { document, converted, linkError } = await ingestDocument(api, name, source, caseId);
+
+          const conversionNote = converted.conversion ? t.documents.conversionNote(converted.conversion) : "";
+          const linkNote = caseId === undefined
+            ? ""
+            : linkError
+              ? t.documents.linkFailed(caseId, linkError)
+              : t.documents.linked(caseId);
+          return textResult(`${t.documents.uploaded(document.id ?? t.common.unknown)}${conversionNote}${linkNote}`, {
+            apiResponse: document,
+            format: converted.format,
+            conversion: converted.conversion ?? null
+          });
+        } catch (error) {
+          if (error instanceof NotFoundError && caseId !== undefined) {
+            return errorResult(t.documents.uploadError, t.common.caseNotFound(caseId));
+          }
+          return errorResult(t.documents.uploadError, error);
+        }
+      }
+    )
+  );
+
+  server.tool(
+    'lar-upload-documents',
+    'Tool to upload many documents at once, from a list of URLs and/or local file paths, or from a ZIP archive (local path or base64). Invalid files are skipped and a per-item report with the assigned document IDs is returned.',
+    {
+      items: z.array(z.object({
+        name: z.string().optional().describe('The name to assign to the document (defaults to the file name).'),
+        url: z.string().url().optional().describe('The URL of the document.'),
+        path: z.string().optional().describe('Absolute path of a local file inside one of the allowed upload directories.'),
+      })).optional().describe('Documents to upload; each item needs either url or path.'),
+      zipPath: z.string().optional().describe('Absolute path of a local ZIP archive whose files will be uploaded.'),
+      zipBase64: z.string().optional().describe('A ZIP archive encoded in base64 whose files will be uploaded.'),
+      caseId: z.number().int().positive().optional().describe('The ID of a case to link every uploaded document to.'),
+    },
+    audited(api, 'lar-upload-documents', { entity: 'document', resultKey: 'results' },
+      async ({ items, zipPath, zipBase64, caseId }, extra) => {
+        const t = messages();
+        try {
+          if (caseId !== undefined) {
+            try {
+              await api.getCase(caseId);
+            } catch (error) {
+              if (error instanceof NotFoundError) {
+                return errorResult(t.documents.uploadManyError, t.common.caseNotFound(caseId));
+              }
+              throw error;
+            }
+          }
+
+          const queue: { name?: string; source?: DocumentSource; error?: string }[] = [];
+
+          for (const item of items ?? []) {
+            if ((item.url === undefined) === (item.path === undefined)) {
+              queue.push({ name: item.name ?? item.url ?? item.path, error: t.documents.itemNeedsOneSource });
+              continue;
+            }
+            const source = item.url !== undefined ? { url: item.url } : { path: item.path! };
+            queue.push({ name: item.name ?? defaultDocumentName(item), source });
+          }
+
+          if (zipPath !== undefined || zipBase64 !== undefined) {
+            const archive = zipPath !== undefined ? await readLocalDocument(zipPath) : decodeBase64Document(zipBase64!);
+            queue.push(...await listArchiveEntries(archive));
+          }
+
+          if (queue.length === 0) {
+            return errorResult(t.documents.uploadManyError, t.documents.noItems);
+          }
+
+          const reportProgress = createProgressReporter(extra);
+          let completed = 0;
+          const results = await mapWithConcurrency(queue, MAX_UPLOAD_CONCURRENCY, async ({ name, source, error }) => {
+            try {
+              if (error || !source) {
+                throw new UploadError(error ?? t.documents.invalidSource);
+              }
+              if (!name) {
+                throw new UploadError(t.documents.missingName);
+              }
+              return await ingestDocument(api, name, source, caseId);
+            } finally {
+              completed += 1;
+              await reportProgress(`${completed}/${queue.length}: ${name ?? t.documents.unnamed}`);
+            }
+          });
+
+          const report = results.map((result, index) => {
+            const name = queue[index].name ?? t.documents.unnamed;
+            if (result.status === "fulfilled") {
+              return {
+                name,
+                status: "uploaded" as const,
+                documentId: result.value.document.id,
+                conversion: result.value.converted.conversion ?? null,
+                linkError: result.value.linkError ?? null
+              };
+            }
+            return {
+              name,
+              status: result.reason instanceof UploadError ? "skipped" as const : "failed" as const,
+              error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+            };
+          });
+
+          const rows = report.map((row, index) => {
+            const detail = row.status === "uploaded"
+              ? [
+                  row.conversion ? t.documents.conversionDetail(row.conversion) : "",
+                  row.linkError ? t.documents.notLinkedDetail(row.linkError) : ""
+                ].filter(Boolean).join(". ")
+              : row.error;
+            const id = row.status === "uploaded" ? row.documentId ?? t.common.unknown : "";
+            return `| ${index + 1} | ${row.name} | ${t.documents.uploadStatus[row.status]} | ${id} | ${detail.replace(/\|/g, "\\|")} |`;
+          });
+          const uploaded = report.filter(row => row.status === "uploaded").length;
+
+          const text = [
+            t.documents.uploadedCount(uploaded, report.length),
+            "",
+            t.documents.uploadTable,
+            ...rows
+          ].join("\n");
+
+          return { ...textResult(text, { results: report }), isError: uploaded === 0 };
+        } catch (error) {
+          return errorResult(t.documents.uploadManyError, error);
+        }
+      }
+    )
+  );
+
+  server.tool(
+    'lar-delete-document',
+    'Tool to delete a document from the Legal Assistant RAG system. The first call returns a preview of the document and the cases it is linked to and a confirmation token; the document is only deleted when the token is passed back, or when the user confirms directly if the client supports it.',
+    {
+      name: z.string().describe('The name of the document to delete.'),
+      ...confirmationArgs,
+    },
+    audited(api, 'lar-delete-document', { entity: 'document', entityId: ({ name }) => name, snapshot: async ({ name }) => (await api.listFiles()).find(file => file.name === name) ?? null },
+      async ({ name, confirmationToken }, extra) => {
+        const t = messages().documents;
+        try {
+          const document = (await api.listFiles()).find(file => file.name === name);
+          if (!document) {
+            return errorResult(t.deleteError, t.nameNotFound(name));
+          }
+
+          const confirmation = await confirmDeletion(server, extra, {
+            tool: 'lar-delete-document',
+            target: name,
+            records: { documentId: document.id },
+            token: confirmationToken,
+            context: t.deleteError,
+            preview: async () => {
+              const cases = await findCasesWithDocument(api, document.id);
+              const caseList = cases.map(legalCase => `  - #${legalCase.id} ${legalCase.title}`);
+              return {
+                text: [
+                  t.deletePreview(document.id, document.name, document.scrapedAt ? formatDay(document.scrapedAt.slice(0, 10)) : undefined),
+                  t.linkedCases(cases.length),
+                  ...caseList
+                ].join("\n"),
+                details: { document, cases: cases.map(legalCase => ({ id: legalCase.id, title: legalCase.title })) }
+              };
+            }
+          });
+          if (!confirmation.confirmed) {
+            return confirmation.result;
+          }
+
+          await api.deleteFile(name);
+          await caseDocumentLinks(api).forget({ fileId: document.id }).catch(() => {});
+          return textResult(t.deleted(name));
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            return errorResult(t.deleteError, t.nameNotFound(name));
+          }
+          return errorResult(t.deleteError, error);
+        }
+      }
+    )
+  );
+
+  server.tool(
+    'lar-list-documents',
+    'Tool to list the documents in Legal Assistant RAG, with a name filter, sorting and pagination.',
+    {
+      namePattern: z.string().optional().describe('Only documents whose name matches this pattern (case-insensitive; * and ? wildcards, otherwise a substring match).'),
+      sortBy: z.enum(['id', 'name', 'scrapedAt']).default('name').describe('Field to sort by.'),
+      ...listingArgs,
+    },
+    async ({ namePattern, sortBy: sortField, ...options }) => {
+      const t = messages().documents;
+      try {
+        const matcher = namePattern ? namePatternMatcher(namePattern) : undefined;
+        const documents = (await api.listFiles()).filter(document => !matcher || matcher(document.name));
+
+        return listingResult(
+          paginate(sortBy(documents, document => document[sortField], options.sortOrder), options),
+          options,
+          {
+            plural: t.plural,
+            empty: namePattern ? t.noneMatching : t.none
+          },
+          document => `#${document.id} ${document.name}`,
+          "documents"
+        );
+      } catch (error) {
+        return errorResult(t.listError, error);
+      }
+    }
+  );
+}
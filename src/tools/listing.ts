@@ -0,0 +1,124 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { messages } from "../i18n/index.js";
+import { textResult } from "./results.js";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/** Argumentos comunes de paginación, orden y vista de las herramientas de listado. */
+export const listingArgs = {
+  sortOrder: z.enum(['asc', 'desc']).default('asc').describe('Sort direction.'),
+  limit: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE).describe(`Maximum number of records to return (1-${MAX_PAGE_SIZE}).`),
+  page: z.number().int().min(1).optional().describe('1-based page number. Ignored when cursor is given.'),
+  cursor: z.string().optional().describe('Cursor returned by a previous call to get the next page.'),
+  view: z.enum(['summary', 'full']).default('summary').describe('"summary" returns one line per record; "full" returns every field as JSON.'),
+};
+
+export interface ListingOptions {
+  sortOrder: 'asc' | 'desc';
+  limit: number;
+  page?: number;
+  cursor?: string;
+  view: 'summary' | 'full';
+}
+
+export interface Page<T> {
+  items: T[];
+  offset: number;
+  total: number;
+  nextCursor?: string;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super(messages().listing.invalidCursor);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Se trata abajo igual que un cursor con un offset inválido.
+  }
+  throw new InvalidCursorError();
+}
+
+export function paginate<T>(items: T[], { limit, page, cursor }: ListingOptions): Page<T> {
+  const offset = cursor !== undefined ? decodeCursor(cursor) : ((page ?? 1) - 1) * limit;
+  const end = offset + limit;
+  return {
+    items: items.slice(offset, end),
+    offset,
+    total: items.length,
+    nextCursor: end < items.length ? encodeCursor(end) : undefined
+  };
+}
+
+type SortValue = string | number | undefined | null;
+
+/** Ordena sin mutar la lista; los valores vacíos van siempre al final. */
+export function sortBy<T>(items: T[], key: (item: T) => SortValue, order: 'asc' | 'desc'): T[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => {
+    const left = key(a);
+    const right = key(b);
+    if (left == null || left === '') return right == null || right === '' ? 0 : 1;
+    if (right == null || right === '') return -1;
+    if (typeof left === 'number' && typeof right === 'number') {
+      return (left - right) * direction;
+    }
+    return String(left).localeCompare(String(right), undefined, { sensitivity: 'base', numeric: true }) * direction;
+  });
+}
+
+export function matchesText(search: string | undefined, ...fields: (string | undefined)[]): boolean {
+  if (!search) {
+    return true;
+  }
+  const needle = search.toLocaleLowerCase();
+  return fields.some(field => field?.toLocaleLowerCase().includes(needle));
+}
+
+/**
+ * Construye el resultado de un listado: una línea por registro en la vista
+ * resumida o el JSON completo, con el rango mostrado y el cursor siguiente.
+ */
+export function listingResult<T>(
+  page: Page<T>,
+  options: ListingOptions,
+  labels: { plural: string; empty: string },
+  summarize: (item: T) => string,
+  key: string
+): CallToolResult {
+  const t = messages().listing;
+  if (page.total === 0) {
+    return textResult(labels.empty, { [key]: [], total: 0 });
+  }
+  if (page.items.length === 0) {
+    return textResult(t.noMore(labels.plural, page.total), { [key]: [], total: page.total });
+  }
+
+  const from = page.offset + 1;
+  const to = page.offset + page.items.length;
+  const header = t.showing(labels.plural, from, to, page.total);
+  const footer = page.nextCursor ? `\n\n${t.more(page.nextCursor)}` : "";
+  const body = options.view === 'full'
+    ? JSON.stringify(page.items, null, 2)
+    : page.items.map(summarize).join("\n");
+
+  return textResult(`${header}\n\n${body}${footer}`, {
+    [key]: page.items,
+    total: page.total,
+    nextCursor: page.nextCursor ?? null
+  });
+}
@@ -0,0 +1,35 @@
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export type ProgressReporter = (message: string) => Promise<void>;
+
+/**
+ * Envía notificaciones `notifications/progress` al cliente MCP. Si la
+ * petición no trae `progressToken` el cliente no las espera y no se envía nada.
+ */
+export function createProgressReporter(extra: ToolExtra): ProgressReporter {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+
+  return async (message) => {
+    if (progressToken === undefined || extra.signal.aborted) {
+      return;
+    }
+
+    progress += 1;
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, message }
+      });
+    } catch {
+      // Una notificación perdida no debe interrumpir la respuesta.
+    }
+  };
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
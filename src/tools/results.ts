@@ -0,0 +1,26 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export function textResult(text: string, extra: Record<string, unknown> = {}): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text
+      }
+    ],
+    ...extra
+  };
+}
+
+export function errorResult(context: string, error: unknown): CallToolResult {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `${context}: ${message}`
+      }
+    ],
+    isError: true
+  };
+}
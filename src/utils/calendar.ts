@@ -0,0 +1,205 @@
+import { LarApiClient } from '../api/client.js';
+import { CaseStatus } from '../api/types.js';
+import { messages } from '../i18n/index.js';
+
+export const DEFAULT_TIME_ZONE = 'Europe/Madrid';
+export const DEFAULT_HEARING_MINUTES = 120;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface CourtHearing {
+  caseId: number;
+  title: string;
+  status: CaseStatus;
+  clientId: number;
+  clientName?: string;
+  start: Date;
+  /** Fecha sin hora: la vista ocupa el día entero. */
+  allDay: boolean;
+}
+
+export interface HearingConflict {
+  first: CourtHearing;
+  second: CourtHearing;
+}
+
+export interface HearingFilter {
+  /** Primer y último día (YYYY-MM-DD, ambos incluidos) en la zona horaria `timeZone`. */
+  from: string;
+  to?: string;
+  timeZone: string;
+  status?: CaseStatus;
+  clientId?: number;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Las fechas que se guardan sin hora llegan como medianoche UTC; se tratan
+ * como vistas de día completo en lugar de como una vista a las 00:00.
+ */
+function isDateOnly(date: Date): boolean {
+  return date.getTime() % DAY_MS === 0;
+}
+
+/** Día natural (YYYY-MM-DD) de un instante en la zona horaria indicada. */
+export function zonedDay(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+/** Día natural (YYYY-MM-DD) de una fecha de vista en la zona horaria indicada. */
+export function courtDay(date: Date, timeZone: string): string {
+  return isDateOnly(date) ? date.toISOString().slice(0, 10) : zonedDay(date, timeZone);
+}
+
+/** Suma días naturales a un día YYYY-MM-DD. */
+export function shiftDay(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function hearingDay(hearing: CourtHearing, timeZone: string): string {
+  return courtDay(hearing.start, timeZone);
+}
+
+/** Vistas de los casos dentro del intervalo, ordenadas por fecha. */
+export async function loadHearings(api: LarApiClient, filter: HearingFilter): Promise<CourtHearing[]> {
+  const [cases, clients] = await Promise.all([
+    api.listCases(),
+    // Sin los nombres de los clientes el calendario sigue siendo útil.
+    api.listClients().catch(() => [])
+  ]);
+  const clientNames = new Map(clients.map(client => [client.id, client.name]));
+
+  const hearings: CourtHearing[] = [];
+  for (const legalCase of cases) {
+    if (!legalCase.courtDate) continue;
+    if (filter.status && legalCase.status !== filter.status) continue;
+    if (filter.clientId && legalCase.clientId !== filter.clientId) continue;
+
+    const start = new Date(legalCase.courtDate);
+    if (isNaN(start.getTime())) continue;
+    const day = courtDay(start, filter.timeZone);
+    if (day < filter.from || (filter.to && day > filter.to)) continue;
+
+    hearings.push({
+      caseId: legalCase.id,
+      title: legalCase.title,
+      status: legalCase.status,
+      clientId: legalCase.clientId,
+      clientName: clientNames.get(legalCase.clientId),
+      start,
+      allDay: isDateOnly(start)
+    });
+  }
+
+  return hearings.sort((a, b) => a.start.getTime() - b.start.getTime() || a.caseId - b.caseId);
+}
+
+/**
+ * Pares de vistas que se solapan suponiendo que cada una dura `minutes`. Una
+ * vista de día completo choca con cualquier otra del mismo día.
+ */
+export function findConflicts(hearings: CourtHearing[], minutes: number, timeZone: string): HearingConflict[] {
+  const conflicts: HearingConflict[] = [];
+  for (let i = 0; i < hearings.length; i++) {
+    for (let j = i + 1; j < hearings.length; j++) {
+      const first = hearings[i];
+      const second = hearings[j];
+      if (hearingDay(first, timeZone) !== hearingDay(second, timeZone)) continue;
+
+      const overlaps = first.allDay || second.allDay ||
+        second.start.getTime() < first.start.getTime() + minutes * MINUTE_MS;
+      if (overlaps) {
+        conflicts.push({ first, second });
+      }
+    }
+  }
+  return conflicts;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Pliega las líneas a 75 octetos como exige RFC 5545, sin partir caracteres UTF-8. */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/** Calendario iCalendar (RFC 5545) con una VEVENT por vista. */
+export function toICalendar(hearings: CourtHearing[], options: { name: string; minutes: number; now?: Date }): string {
+  const t = messages().calendar;
+  const stamp = formatUtc(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Legal Assistant RAG//lar-mcp//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`
+  ];
+
+  for (const hearing of hearings) {
+    const description = [
+      t.eventCase(hearing.caseId, hearing.status),
+      t.eventClient(hearing.clientName ?? hearing.clientId)
+    ].join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:case-${hearing.caseId}-${formatUtc(hearing.start)}@lar-mcp`,
+      `DTSTAMP:${stamp}`,
+      ...(hearing.allDay
+        ? [
+            `DTSTART;VALUE=DATE:${formatDate(hearing.start)}`,
+            `DTEND;VALUE=DATE:${formatDate(new Date(hearing.start.getTime() + DAY_MS))}`
+          ]
+        : [
+            `DTSTART:${formatUtc(hearing.start)}`,
+            `DTEND:${formatUtc(new Date(hearing.start.getTime() + options.minutes * MINUTE_MS))}`
+          ]),
+      `SUMMARY:${escapeText(t.eventSummary(hearing.title))}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `CATEGORIES:${escapeText(hearing.status)}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,97 @@
+import { getConfig } from '../config.js';
+import { JsonStore } from '../store/jsonStore.js';
+import { ComputedDeadline, DeadlineCalendar, DeadlineRule, computeDeadlines } from './deadlines.js';
+
+export interface CaseDeadline {
+  id: number;
+  label: string;
+  date: string;
+  anchor: string;
+  rule: DeadlineRule;
+  /** Calendario con el que se calculó; falta en los plazos guardados antes de registrarlo. */
+  calendar?: DeadlineCalendar;
+  /** Si la referencia es la fecha de vista del caso, y no una fecha indicada aparte. */
+  fromCourtDate?: boolean;
+  createdAt: string;
+}
+
+interface DeadlineData {
+  nextId: number;
+  cases: Record<string, CaseDeadline[]>;
+}
+
+/** Plazos calculados y guardados por caso en case-deadlines.json. */
+const store = new JsonStore<DeadlineData>('case-deadlines.json', () => ({ nextId: 1, cases: {} }));
+
+function byDate(a: CaseDeadline, b: CaseDeadline): number {
+  return a.date.localeCompare(b.date) || a.id - b.id;
+}
+
+export async function listCaseDeadlines(caseId: number): Promise<CaseDeadline[]> {
+  return [...((await store.read()).cases[caseId] ?? [])].sort(byDate);
+}
+
+export function addCaseDeadlines(
+  caseId: number,
+  computed: ComputedDeadline[],
+  source: { calendar: DeadlineCalendar; fromCourtDate: boolean },
+  defaultLabel: (deadline: ComputedDeadline) => string
+): Promise<CaseDeadline[]> {
+  return store.update(data => {
+    const createdAt = new Date().toISOString();
+    const added = computed.map(deadline => ({
+      id: data.nextId++,
+      label: deadline.rule.label ?? defaultLabel(deadline),
+      date: deadline.date,
+      anchor: deadline.anchor,
+      rule: deadline.rule,
+      calendar: source.calendar,
+      fromCourtDate: source.fromCourtDate,
+      createdAt
+    }));
+    data.cases[caseId] = [...(data.cases[caseId] ?? []), ...added].sort(byDate);
+    return added;
+  });
+}
+
+export function removeCaseDeadline(caseId: number, deadlineId: number): Promise<boolean> {
+  return store.update(data => {
+    const deadlines = data.cases[caseId] ?? [];
+    if (!deadlines.some(deadline => deadline.id === deadlineId)) {
+      return false;
+    }
+    data.cases[caseId] = deadlines.filter(deadline => deadline.id !== deadlineId);
+    if (data.cases[caseId].length === 0) {
+      delete data.cases[caseId];
+    }
+    return true;
+  });
+}
+
+/**
+ * Vuelve a calcular, con la nueva fecha de vista, los plazos que se contaban
+ * desde la anterior; los calculados desde otra fecha no cambian. Los plazos
+ * guardados sin calendario usan el de la configuración. Devuelve los plazos
+ * que han cambiado.
+ */
+export function rescheduleCaseDeadlines(caseId: number, previousCourtDay: string | undefined, courtDay: string): Promise<CaseDeadline[]> {
+  return store.update(data => {
+    const deadlines = data.cases[caseId] ?? [];
+    const affected = deadlines.filter(deadline => deadline.fromCourtDate ?? deadline.anchor === previousCourtDay);
+    for (const deadline of affected) {
+      const [computed] = computeDeadlines(courtDay, [deadline.rule], deadline.calendar ?? getConfig().deadlines);
+      deadline.anchor = courtDay;
+      deadline.date = computed.date;
+    }
+    if (affected.length > 0) {
+      data.cases[caseId] = deadlines.sort(byDate);
+    }
+    return affected;
+  });
+}
+
+export async function forgetCaseDeadlines(caseId: number): Promise<void> {
+  await store.update(data => {
+    delete data.cases[caseId];
+  });
+}
@@ -0,0 +1,138 @@
+import { LarApiClient } from '../api/client.js';
+import { Case, Document } from '../api/types.js';
+import { getConfig } from '../config.js';
+import { JsonStore } from '../store/jsonStore.js';
+import { mapWithConcurrency } from './concurrency.js';
+
+const MAX_LOOKUP_CONCURRENCY = 4;
+
+/**
+ * Vinculación entre casos y documentos. Con LAR_CASE_DOCUMENTS_STORE=backend
+ * se usan los endpoints /api/cases/{id}/documents del backend; en otro caso
+ * se guarda localmente en case-documents.json dentro del directorio de datos.
+ */
+export interface CaseDocumentLinks {
+  list(caseId: number): Promise<number[]>;
+  attach(caseId: number, fileId: number): Promise<boolean>;
+  detach(caseId: number, fileId: number): Promise<boolean>;
+  /** Elimina las vinculaciones que quedan huérfanas al borrar un caso o un documento. */
+  forget(target: { caseId?: number; fileId?: number }): Promise<void>;
+}
+
+type LinkData = Record<string, number[]>;
+
+const localLinks = new JsonStore<LinkData>('case-documents.json', () => ({}));
+
+class LocalCaseDocumentLinks implements CaseDocumentLinks {
+  async list(caseId: number): Promise<number[]> {
+    return (await localLinks.read())[caseId] ?? [];
+  }
+
+  attach(caseId: number, fileId: number): Promise<boolean> {
+    return localLinks.update(data => {
+      const ids = data[caseId] ?? [];
+      if (ids.includes(fileId)) {
+        return false;
+      }
+      data[caseId] = [...ids, fileId];
+      return true;
+    });
+  }
+
+  detach(caseId: number, fileId: number): Promise<boolean> {
+    return localLinks.update(data => {
+      const ids = data[caseId] ?? [];
+      if (!ids.includes(fileId)) {
+        return false;
+      }
+      data[caseId] = ids.filter(id => id !== fileId);
+      if (data[caseId].length === 0) {
+        delete data[caseId];
+      }
+      return true;
+    });
+  }
+
+  async forget({ caseId, fileId }: { caseId?: number; fileId?: number }): Promise<void> {
+    await localLinks.update(data => {
+      if (caseId !== undefined) {
+        delete data[caseId];
+      }
+      if (fileId !== undefined) {
+        for (const key of Object.keys(data)) {
+          data[key] = data[key].filter(id => id !== fileId);
+          if (data[key].length === 0) {
+            delete data[key];
+          }
+        }
+      }
+    });
+  }
+}
+
+class BackendCaseDocumentLinks implements CaseDocumentLinks {
+  constructor(private readonly api: LarApiClient) {}
+
+  async list(caseId: number): Promise<number[]> {
+    return (await this.api.listCaseDocuments(caseId)).map(document => document.id);
+  }
+
+  async attach(caseId: number, fileId: number): Promise<boolean> {
+    if ((await this.list(caseId)).includes(fileId)) {
+      return false;
+    }
+    await this.api.attachCaseDocument(caseId, fileId);
+    return true;
+  }
+
+  async detach(caseId: number, fileId: number): Promise<boolean> {
+    if (!(await this.list(caseId)).includes(fileId)) {
+      return false;
+    }
+    await this.api.detachCaseDocument(caseId, fileId);
+    return true;
+  }
+
+  async forget(): Promise<void> {
+    // El backend mantiene la integridad de sus propias relaciones.
+  }
+}
+
+const local = new LocalCaseDocumentLinks();
+
+export function caseDocumentLinks(api: LarApiClient): CaseDocumentLinks {
+  return getConfig().caseDocuments.store === 'backend' ? new BackendCaseDocumentLinks(api) : local;
+}
+
+/**
+ * Documentos vinculados a un caso. Se unen los que el backend incluya en el
+ * propio caso con los de la vinculación configurada; los que ya no existen
+ * en /api/files se descartan.
+ */
+export async function getCaseDocuments(api: LarApiClient, caseOrId: Case | number): Promise<Document[]> {
+  const legalCase = typeof caseOrId === 'number' ? await api.getCase(caseOrId) : caseOrId;
+  const linkedIds = await caseDocumentLinks(api).list(legalCase.id);
+  const embedded = legalCase.documents ?? [];
+
+  if (linkedIds.length === 0) {
+    return embedded;
+  }
+
+  const files = await api.listFiles();
+  const ids = new Set([...embedded.map(document => document.id), ...linkedIds]);
+  return files.filter(document => ids.has(document.id));
+}
+
+/** Casos que tienen vinculado el documento, ya sea en el backend o en la vinculación configurada. */
+export async function findCasesWithDocument(api: LarApiClient, fileId: number): Promise<Case[]> {
+  const cases = await api.listCases();
+  const links = caseDocumentLinks(api);
+  const results = await mapWithConcurrency(cases, MAX_LOOKUP_CONCURRENCY, async legalCase =>
+    (legalCase.documents ?? []).some(document => document.id === fileId) ||
+    (await links.list(legalCase.id)).includes(fileId)
+  );
+  return cases.filter((_, index) => {
+    const result = results[index];
+    return result.status === 'fulfilled' && result.value;
+  });
+}
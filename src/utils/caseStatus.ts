@@ -0,0 +1,89 @@
+import { CaseStatus } from '../api/types.js';
+import { getConfig } from '../config.js';
+import { messages } from '../i18n/index.js';
+import { JsonStore } from '../store/jsonStore.js';
+
+/**
+ * Ciclo de vida de un caso. Un caso cerrado solo puede reabrirse, y tanto el
+ * cierre como la reapertura exigen un motivo que queda en el historial.
+ */
+const TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  Open: ['Pending', 'Closed'],
+  Pending: ['Open', 'Closed'],
+  Closed: ['Open'],
+};
+
+export interface StatusChange {
+  /** null en el registro de creación del caso. */
+  from: CaseStatus | null;
+  to: CaseStatus;
+  reason?: string;
+  changedAt: string;
+  changedBy?: string;
+}
+
+export class CaseStatusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaseStatusError';
+  }
+}
+
+export function requiresReason(from: CaseStatus, to: CaseStatus): boolean {
+  return to === 'Closed' || (from === 'Closed' && to === 'Open');
+}
+
+/** Lanza CaseStatusError si el cambio no está permitido o le falta el motivo. */
+export function validateTransition(from: CaseStatus, to: CaseStatus, reason?: string): void {
+  const t = messages().caseStatus;
+  if (from === to) {
+    throw new CaseStatusError(t.alreadyIn(to));
+  }
+  if (!TRANSITIONS[from].includes(to)) {
+    throw new CaseStatusError(t.notAllowed(from, to, TRANSITIONS[from].join(', ')));
+  }
+  if (requiresReason(from, to) && !reason?.trim()) {
+    throw new CaseStatusError(to === 'Closed' ? t.closeReason : t.reopenReason);
+  }
+}
+
+/** Umbral de días en Pending a partir del cual un caso se considera estancado (LAR_PENDING_THRESHOLD_DAYS). */
+export function getPendingThreshold(): number {
+  return getConfig().cases.pendingThresholdDays;
+}
+
+const history = new JsonStore<Record<string, StatusChange[]>>('case-status-history.json', () => ({}));
+
+export async function getStatusHistory(caseId: number): Promise<StatusChange[]> {
+  return (await history.read())[caseId] ?? [];
+}
+
+export async function getAllStatusHistory(): Promise<Record<string, StatusChange[]>> {
+  return history.read();
+}
+
+export async function recordStatusChange(caseId: number, change: Omit<StatusChange, 'changedAt'>): Promise<StatusChange> {
+  const entry: StatusChange = { ...change, changedAt: new Date().toISOString() };
+  if (!entry.reason) delete entry.reason;
+  if (!entry.changedBy) delete entry.changedBy;
+  await history.update(data => {
+    data[caseId] = [...(data[caseId] ?? []), entry];
+  });
+  return entry;
+}
+
+export async function forgetStatusHistory(caseId: number): Promise<void> {
+  await history.update(data => {
+    delete data[caseId];
+  });
+}
+
+/**
+ * Desde cuándo está el caso en su estado actual según el historial. Si el
+ * último registro no coincide con el estado actual (el caso se cambió fuera
+ * de este servidor), no se puede saber.
+ */
+export function statusSince(changes: StatusChange[], status: CaseStatus): Date | undefined {
+  const last = changes[changes.length - 1];
+  return last && last.to === status ? new Date(last.changedAt) : undefined;
+}
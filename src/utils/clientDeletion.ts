@@ -0,0 +1,261 @@
+import { LarApiClient } from '../api/client.js';
+import { NotFoundError } from '../api/errors.js';
+import { Case, CaseInput, Client } from '../api/types.js';
+import { messages } from '../i18n/index.js';
+import { forgetCaseDeadlines } from './caseDeadlines.js';
+import { caseDocumentLinks } from './caseDocuments.js';
+import { forgetStatusHistory, recordStatusChange } from './caseStatus.js';
+
+/**
+ * Qué hacer con los casos de un cliente antes de eliminarlo, ya que el
+ * backend rechaza borrar clientes con casos asociados:
+ * - reassign: pasar los casos a otro cliente.
+ * - archive: cerrar los casos y pasarlos a un cliente de archivo.
+ * - cascade: eliminar los casos.
+ */
+export const CASE_STRATEGIES = ['reassign', 'archive', 'cascade'] as const;
+
+export type CaseStrategy = typeof CASE_STRATEGIES[number];
+
+export interface ClientDeletionPlan {
+  client: Client;
+  cases: Case[];
+  strategy?: CaseStrategy;
+  targetClient?: Client;
+  reason?: string;
+}
+
+export type StepStatus = 'done' | 'failed' | 'rolledBack' | 'rollbackFailed' | 'notRun';
+
+export interface DeletionStep {
+  description: string;
+  caseId?: number;
+  status: StepStatus;
+  error?: string;
+}
+
+export interface DeletionOutcome {
+  deleted: boolean;
+  steps: DeletionStep[];
+}
+
+/** El plan pedido no se puede ejecutar; el mensaje se muestra tal cual. */
+export class DeletionPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeletionPlanError';
+  }
+}
+
+interface PlannedStep {
+  description: string;
+  caseId?: number;
+  run: () => Promise<void>;
+  /** Deshace el paso; sin ella el paso no es reversible. */
+  undo?: () => Promise<void>;
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function caseInput(legalCase: Case, userId: string, changes: Partial<CaseInput>): CaseInput {
+  return {
+    title: legalCase.title,
+    description: legalCase.description,
+    status: legalCase.status,
+    courtDate: legalCase.courtDate,
+    clientId: legalCase.clientId,
+    assignedUserId: legalCase.assignedUserId ?? userId,
+    ...changes
+  };
+}
+
+export async function buildClientDeletionPlan(
+  api: LarApiClient,
+  clientId: number,
+  options: { strategy?: CaseStrategy; targetClientId?: number; reason?: string }
+): Promise<ClientDeletionPlan> {
+  const [client, allCases] = await Promise.all([api.getClient(clientId), api.listCases()]);
+  const cases = allCases.filter(legalCase => legalCase.clientId === clientId);
+  const { strategy, targetClientId, reason } = options;
+  const t = messages().clientDeletion;
+
+  if (cases.length === 0) {
+    return { client, cases, strategy };
+  }
+  // Sin estrategia el backend rechazaría el borrado: no tiene sentido pedir confirmación.
+  if (!strategy) {
+    throw new DeletionPlanError(messages().clients.chooseStrategy);
+  }
+
+  if (strategy === 'cascade') {
+    return { client, cases, strategy };
+  }
+
+  if (targetClientId === undefined) {
+    throw new DeletionPlanError(t.needsTarget(strategy));
+  }
+  if (targetClientId === clientId) {
+    throw new DeletionPlanError(t.sameTarget);
+  }
+  if (strategy === 'archive' && !reason?.trim()) {
+    throw new DeletionPlanError(t.archiveNeedsReason);
+  }
+
+  let targetClient: Client;
+  try {
+    targetClient = await api.getClient(targetClientId);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw new DeletionPlanError(t.targetNotFound(targetClientId));
+    }
+    throw error;
+  }
+
+  return { client, cases, strategy, targetClient, reason };
+}
+
+function planSteps(api: LarApiClient, plan: ClientDeletionPlan, userId: string): PlannedStep[] {
+  const { client, targetClient, reason } = plan;
+  const t = messages().clientDeletion;
+  const steps: PlannedStep[] = [];
+
+  for (const legalCase of plan.strategy ? plan.cases : []) {
+    if (plan.strategy === 'reassign' && targetClient) {
+      steps.push({
+        description: t.reassignStep(legalCase.id, legalCase.title, targetClient.id, targetClient.name),
+        caseId: legalCase.id,
+        run: async () => {
+          await api.updateCase(legalCase.id, caseInput(legalCase, userId, { clientId: targetClient.id }));
+        },
+        undo: async () => {
+          await api.updateCase(legalCase.id, caseInput(legalCase, userId, {}));
+        }
+      });
+    } else if (plan.strategy === 'archive' && targetClient) {
+      const closes = legalCase.status !== 'Closed';
+      steps.push({
+        description: closes
+          ? t.closeAndArchiveStep(legalCase.id, legalCase.title, targetClient.id, targetClient.name)
+          : t.archiveClosedStep(legalCase.id, legalCase.title, targetClient.id, targetClient.name),
+        caseId: legalCase.id,
+        run: async () => {
+          await api.updateCase(legalCase.id, caseInput(legalCase, userId, { status: 'Closed', clientId: targetClient.id }));
+          if (closes) {
+            await recordStatusChange(legalCase.id, { from: legalCase.status, to: 'Closed', reason, changedBy: userId }).catch(() => {});
+          }
+        },
+        undo: async () => {
+          await api.updateCase(legalCase.id, caseInput(legalCase, userId, {}));
+          if (closes) {
+            await recordStatusChange(legalCase.id, {
+              from: 'Closed',
+              to: legalCase.status,
+              reason: t.undoArchiveReason(client.id),
+              changedBy: userId
+            }).catch(() => {});
+          }
+        }
+      });
+    } else if (plan.strategy === 'cascade') {
+      steps.push({
+        description: t.deleteCaseStep(legalCase.id, legalCase.title),
+        caseId: legalCase.id,
+        run: async () => {
+          await api.deleteCase(legalCase.id);
+          await caseDocumentLinks(api).forget({ caseId: legalCase.id }).catch(() => {});
+          await forgetCaseDeadlines(legalCase.id).catch(() => {});
+          await forgetStatusHistory(legalCase.id).catch(() => {});
+        }
+      });
+    }
+  }
+
+  steps.push({
+    description: t.deleteClientStep(client.id, client.name),
+    run: async () => {
+      await api.deleteClient(client.id);
+    }
+  });
+  return steps;
+}
+
+/**
+ * Casos del plan y lo que se hará con cada uno. La confirmación solo vale si
+ * no cambian desde la vista previa: un caso creado entretanto no debe
+ * eliminarse ni moverse sin que el usuario lo haya visto.
+ */
+export function clientDeletionRecords(plan: ClientDeletionPlan): unknown {
+  const action = (legalCase: Case): string | undefined => {
+    switch (plan.strategy) {
+      case 'reassign': return `reassign:${plan.targetClient?.id}`;
+      case 'archive': return `${legalCase.status === 'Closed' ? 'archive' : 'close-and-archive'}:${plan.targetClient?.id}`;
+      case 'cascade': return 'delete';
+      default: return undefined;
+    }
+  };
+  return {
+    clientId: plan.client.id,
+    cases: plan.cases
+      .map(legalCase => ({ id: legalCase.id, action: action(legalCase) }))
+      .sort((a, b) => a.id - b.id)
+  };
+}
+
+/** Descripción de cada paso del plan, en el orden en que se ejecutará. */
+export function describeClientDeletionPlan(api: LarApiClient, plan: ClientDeletionPlan): string[] {
+  return planSteps(api, plan, '').map(step => step.description);
+}
+
+/**
+ * Ejecuta el plan paso a paso. Si un paso falla, o se cancela la petición,
+ * se deshacen en orden inverso los pasos ya hechos que lo permiten; los
+ * casos ya eliminados en cascada no se pueden recuperar.
+ */
+export async function executeClientDeletionPlan(
+  api: LarApiClient,
+  plan: ClientDeletionPlan,
+  options: { signal?: AbortSignal; onStep?: (message: string) => Promise<void> } = {}
+): Promise<DeletionOutcome> {
+  const userId = await api.getUserId();
+  const planned = planSteps(api, plan, userId);
+  const steps: DeletionStep[] = planned.map(step => ({ description: step.description, caseId: step.caseId, status: 'notRun' }));
+
+  let failed = false;
+  for (let index = 0; index < planned.length; index++) {
+    if (options.signal?.aborted) {
+      steps[index].status = 'failed';
+      steps[index].error = messages().clientDeletion.cancelled;
+      failed = true;
+      break;
+    }
+    try {
+      await planned[index].run();
+      steps[index].status = 'done';
+      await options.onStep?.(`${index + 1}/${planned.length}: ${planned[index].description}`);
+    } catch (error) {
+      steps[index].status = 'failed';
+      steps[index].error = messageOf(error);
+      failed = true;
+      break;
+    }
+  }
+
+  if (!failed) {
+    return { deleted: true, steps };
+  }
+
+  for (let index = planned.length - 1; index >= 0; index--) {
+    const undo = planned[index].undo;
+    if (steps[index].status !== 'done' || !undo) continue;
+    try {
+      await undo();
+      steps[index].status = 'rolledBack';
+    } catch (error) {
+      steps[index].status = 'rollbackFailed';
+      steps[index].error = messageOf(error);
+    }
+  }
+  return { deleted: false, steps };
+}
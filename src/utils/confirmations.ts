@@ -0,0 +1,94 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { getConfig } from '../config.js';
+import { messages } from '../i18n/index.js';
+
+/** El token de confirmación no existe, ha caducado o es de otra operación. */
+export class ConfirmationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfirmationError';
+  }
+}
+
+/** Operación que autoriza un token. */
+export interface ConfirmedOperation {
+  action: string;
+  target: string | number;
+  /** Usuario que pidió la vista previa; solo él puede usar el token. */
+  caller?: string;
+  /** IDs de los registros que mostró la vista previa; ver recordsDigest. */
+  records: string;
+}
+
+interface PendingConfirmation {
+  action: string;
+  target: string;
+  caller?: string;
+  records: string;
+  expiresAt: number;
+}
+
+/** Huella de los registros afectados, para comprobar que no cambian entre la vista previa y la confirmación. */
+export function recordsDigest(records: unknown): string {
+  return createHash('sha256').update(JSON.stringify(records)).digest('hex');
+}
+
+/** Vigencia de los tokens de confirmación (LAR_CONFIRMATION_TTL_SECONDS). */
+export function getConfirmationTtl(): number {
+  return getConfig().confirmations.ttlSeconds * 1000;
+}
+
+/**
+ * Tokens de un solo uso que autorizan una operación destructiva concreta
+ * durante un tiempo limitado. Viven solo en memoria: reiniciar el servidor
+ * invalida las confirmaciones pendientes.
+ */
+export class ConfirmationStore {
+  private readonly pending = new Map<string, PendingConfirmation>();
+
+  /** Sin ttlMs se aplica la vigencia configurada. */
+  constructor(private readonly ttlMs?: number) {}
+
+  issue(operation: ConfirmedOperation): { token: string; expiresAt: Date } {
+    this.prune();
+    const token = randomBytes(16).toString('base64url');
+    const expiresAt = Date.now() + (this.ttlMs ?? getConfirmationTtl());
+    this.pending.set(token, { ...operation, target: String(operation.target), expiresAt });
+    return { token, expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * Comprueba el token y lo invalida, de modo que no pueda reutilizarse. El
+   * token de otro usuario se trata como inexistente y no se invalida, para
+   * que nadie pueda gastar las confirmaciones ajenas.
+   */
+  consume(token: string, operation: ConfirmedOperation): void {
+    const t = messages().confirmation;
+    const confirmation = this.pending.get(token);
+    if (!confirmation || confirmation.caller !== operation.caller) {
+      throw new ConfirmationError(t.invalidToken);
+    }
+    this.pending.delete(token);
+
+    if (confirmation.expiresAt < Date.now()) {
+      throw new ConfirmationError(t.invalidToken);
+    }
+    if (confirmation.action !== operation.action || confirmation.target !== String(operation.target)) {
+      throw new ConfirmationError(t.otherOperation);
+    }
+    if (confirmation.records !== operation.records) {
+      throw new ConfirmationError(t.recordsChanged);
+    }
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [token, confirmation] of this.pending) {
+      if (confirmation.expiresAt < now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+export const confirmations = new ConfirmationStore();
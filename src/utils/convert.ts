@@ -0,0 +1,121 @@
+import { convert as htmlToText } from 'html-to-text';
+import mammoth from 'mammoth';
+import PDFDocument from 'pdfkit';
+import { messages } from '../i18n/index.js';
+import { UploadError, isPdf } from './upload.js';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'txt' | 'png' | 'jpeg';
+
+export interface ConvertedDocument {
+  data: Buffer;
+  format: DocumentFormat;
+  /** Descripción de la conversión aplicada, o undefined si ya era un PDF. */
+  conversion?: string;
+}
+
+function startsWith(data: Buffer, bytes: number[]): boolean {
+  return bytes.every((byte, index) => data[index] === byte);
+}
+
+function decodeText(data: Buffer): string | undefined {
+  if (data.subarray(0, 8192).includes(0)) {
+    return undefined;
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    // Sin NUL pero no es UTF-8: se asume Latin-1, habitual en textos antiguos.
+    return data.toString('latin1');
+  }
+}
+
+/** Detecta el formato real por sus primeros bytes, sin fiarse de la extensión ni del Content-Type. */
+export function detectFormat(data: Buffer): DocumentFormat | undefined {
+  if (isPdf(data)) {
+    return 'pdf';
+  }
+  if (startsWith(data, [0x50, 0x4b, 0x03, 0x04])) {
+    // Un DOCX es un ZIP con la entrada word/document.xml.
+    return data.includes('word/document.xml') ? 'docx' : undefined;
+  }
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'png';
+  }
+  if (startsWith(data, [0xff, 0xd8, 0xff])) {
+    return 'jpeg';
+  }
+
+  const text = decodeText(data);
+  if (text === undefined) {
+    return undefined;
+  }
+  return /^\s*(<!doctype\s+html|<html[\s>]|<head[\s>]|<body[\s>])/i.test(text) ? 'html' : 'txt';
+}
+
+function renderPdf(draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 56 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    draw(doc);
+    doc.end();
+  });
+}
+
+function textToPdf(text: string): Promise<Buffer> {
+  return renderPdf(doc => {
+    doc.font('Helvetica').fontSize(11).text(text.trim() || ' ');
+  });
+}
+
+function imageToPdf(data: Buffer): Promise<Buffer> {
+  return renderPdf(doc => {
+    const { width, height, margins } = doc.page;
+    doc.image(data, margins.left, margins.top, {
+      fit: [width - margins.left - margins.right, height - margins.top - margins.bottom],
+      align: 'center',
+      valign: 'center',
+    });
+  });
+}
+
+async function extractText(data: Buffer, format: 'docx' | 'html' | 'txt'): Promise<string> {
+  switch (format) {
+    case 'docx':
+      return (await mammoth.extractRawText({ buffer: data })).value;
+    case 'html':
+      return htmlToText(decodeText(data) ?? '', { wordwrap: false });
+    case 'txt':
+      return decodeText(data) ?? '';
+  }
+}
+
+/**
+ * Convierte el documento a un PDF que el backend acepte. Los PDF pasan sin
+ * cambios; DOCX, HTML y texto se maquetan como texto y las imágenes se
+ * incrustan en una página (sin OCR).
+ */
+export async function convertToPdf(data: Buffer, origin: string): Promise<ConvertedDocument> {
+  const t = messages().upload;
+  const format = detectFormat(data);
+  if (!format) {
+    throw new UploadError(t.unsupportedFormat(origin));
+  }
+  if (format === 'pdf') {
+    return { data, format };
+  }
+
+  let pdf: Buffer;
+  try {
+    pdf = format === 'png' || format === 'jpeg'
+      ? await imageToPdf(data)
+      : await textToPdf(await extractText(data, format));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new UploadError(t.conversionFailed(origin, t.formats[format], reason));
+  }
+
+  return { data: pdf, format, conversion: `${t.formats[format]} → PDF` };
+}
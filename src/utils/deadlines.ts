@@ -0,0 +1,193 @@
+import { currentLocale, messages } from '../i18n/index.js';
+import { HOLIDAY_CALENDARS, HOLIDAY_CALENDAR_CODES } from './holidays.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DeadlineUnit = 'calendar' | 'business';
+export type DeadlineDirection = 'before' | 'after';
+
+export interface DeadlineRule {
+  amount: number;
+  unit: DeadlineUnit;
+  direction: DeadlineDirection;
+  label?: string;
+}
+
+export interface DeadlineCalendar {
+  calendars: string[];
+  /** Fechas YYYY-MM-DD concretas o MM-DD que se repiten cada año. */
+  extraHolidays: string[];
+  augustNonWorking: boolean;
+}
+
+export interface ComputedDeadline {
+  rule: DeadlineRule;
+  /** Día de referencia (YYYY-MM-DD). */
+  anchor: string;
+  date: string;
+  /** Si el plazo en días naturales caía en inhábil, el día original. */
+  movedFrom?: string;
+  /** Días inhábiles saltados, con su motivo. */
+  skipped: { date: string; reason: string }[];
+}
+
+export class DeadlineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeadlineError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RECURRING_PATTERN = /^\d{2}-\d{2}$/;
+
+/** Domingo de Pascua (algoritmo anónimo gregoriano). */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function parseDay(value: string): Date | undefined {
+  if (!DATE_PATTERN.test(value)) {
+    return undefined;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) || formatDay(date) !== value ? undefined : date;
+}
+
+/**
+ * Días inhábiles de un calendario. Se calculan por año y se guardan, porque
+ * un plazo largo recorre cientos de días.
+ */
+class NonWorkingDays {
+  private readonly years = new Map<number, Map<string, string>>();
+
+  private readonly reasons = messages().deadlines.nonWorking;
+
+  private readonly locale = currentLocale();
+
+  constructor(private readonly calendar: DeadlineCalendar) {
+    const t = messages().deadlines;
+    for (const code of calendar.calendars) {
+      if (!HOLIDAY_CALENDARS[code]) {
+        throw new DeadlineError(t.unknownCalendar(code, HOLIDAY_CALENDAR_CODES.join(', ')));
+      }
+    }
+    for (const holiday of calendar.extraHolidays) {
+      const valid = RECURRING_PATTERN.test(holiday) ? parseDay(`2000-${holiday}`) : parseDay(holiday);
+      if (!valid) {
+        throw new DeadlineError(t.invalidHoliday(holiday));
+      }
+    }
+  }
+
+  /** Motivo por el que el día es inhábil, o undefined si es hábil. */
+  reason(date: Date): string | undefined {
+    const weekday = date.getUTCDay();
+    if (weekday === 0) return this.reasons.sunday;
+    if (weekday === 6) return this.reasons.saturday;
+    if (this.calendar.augustNonWorking && date.getUTCMonth() === 7) return this.reasons.august;
+    return this.holidays(date.getUTCFullYear()).get(formatDay(date));
+  }
+
+  private holidays(year: number): Map<string, string> {
+    let holidays = this.years.get(year);
+    if (holidays) {
+      return holidays;
+    }
+
+    holidays = new Map();
+    const easter = easterSunday(year);
+    for (const code of this.calendar.calendars) {
+      for (const rule of HOLIDAY_CALENDARS[code].rules) {
+        const date = 'easterOffset' in rule
+          ? addDays(easter, rule.easterOffset)
+          : new Date(Date.UTC(year, rule.month - 1, rule.day));
+        const key = formatDay(date);
+        if (!holidays.has(key)) {
+          const name = rule.name[this.locale];
+          holidays.set(key, code === 'ES' ? name : `${name} (${code})`);
+        }
+      }
+    }
+    for (const holiday of this.calendar.extraHolidays) {
+      const key = RECURRING_PATTERN.test(holiday) ? `${year}-${holiday}` : holiday;
+      if (key.startsWith(`${year}-`) && !holidays.has(key)) {
+        holidays.set(key, this.reasons.extra);
+      }
+    }
+
+    this.years.set(year, holidays);
+    return holidays;
+  }
+}
+
+/**
+ * Calcula el vencimiento de cada regla a partir del día de referencia, que
+ * nunca cuenta. En días hábiles se saltan fines de semana, festivos y, si se
+ * configura, agosto. En días naturales, si el último día es inhábil se
+ * traslada al siguiente hábil (art. 133.4 LEC), o al anterior cuando el plazo
+ * se cuenta hacia atrás, para no rebasar la fecha de referencia.
+ */
+export function computeDeadlines(anchor: string, rules: DeadlineRule[], calendar: DeadlineCalendar): ComputedDeadline[] {
+  const start = parseDay(anchor);
+  if (!start) {
+    throw new DeadlineError(messages().deadlines.invalidAnchor(anchor));
+  }
+  const nonWorking = new NonWorkingDays(calendar);
+
+  return rules.map(rule => {
+    const step = rule.direction === 'after' ? 1 : -1;
+    const skipped: ComputedDeadline['skipped'] = [];
+    let date = start;
+
+    if (rule.unit === 'business') {
+      let counted = 0;
+      while (counted < rule.amount) {
+        date = addDays(date, step);
+        const reason = nonWorking.reason(date);
+        if (reason) {
+          skipped.push({ date: formatDay(date), reason });
+        } else {
+          counted++;
+        }
+      }
+      return { rule, anchor, date: formatDay(date), skipped };
+    }
+
+    date = addDays(date, step * rule.amount);
+    const original = formatDay(date);
+    for (let reason = nonWorking.reason(date); reason; reason = nonWorking.reason(date)) {
+      skipped.push({ date: formatDay(date), reason });
+      date = addDays(date, step);
+    }
+    const result = formatDay(date);
+    return { rule, anchor, date: result, skipped, ...(result !== original ? { movedFrom: original } : {}) };
+  });
+}
+
+export function describeRule(rule: DeadlineRule): string {
+  const t = messages().deadlines;
+  return `${rule.amount} ${t.units[rule.unit]} ${t.directions[rule.direction]}`;
+}
@@ -0,0 +1,221 @@
+import { lookup as dnsLookup, LookupAddress } from 'node:dns';
+import { BlockList, isIP } from 'node:net';
+import { Agent, fetch, Response } from 'undici';
+import { getConfig } from '../config.js';
+import { messages } from '../i18n/index.js';
+import { UploadError, tooLargeMessage } from './upload.js';
+
+export interface FetchLimits {
+  /** Hosts permitidos; admite comodines de subdominio ("*.boe.es"). Vacío = cualquiera. */
+  allowedHosts: string[];
+  allowPrivateAddresses: boolean;
+  maxBytes: number;
+  connectTimeoutMs: number;
+  readTimeoutMs: number;
+  maxRedirects: number;
+}
+
+export function getFetchLimits(): FetchLimits {
+  return getConfig().fetch;
+}
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  // Incluye :: y ::1, y las IPv4 compatibles (::a00:1), que llevan una IPv4 dentro.
+  ['::', 96],
+  ['64:ff9b::', 96],
+  // 6to4: la IPv4 va en los bits 16 a 48 y puede ser privada.
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Direcciones de loopback, redes privadas, link-local, multicast y reservadas. */
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) {
+    return blockedAddresses.check(address, 'ipv4');
+  }
+  if (family === 6) {
+    // Las IPv4 mapeadas (::ffff:10.0.0.1) se comprueban como IPv4.
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+    return mapped ? blockedAddresses.check(mapped[1], 'ipv4') : blockedAddresses.check(address, 'ipv6');
+  }
+  return true;
+}
+
+function isHostAllowed(hostname: string, allowedHosts: string[]): boolean {
+  if (allowedHosts.length === 0) {
+    return true;
+  }
+  return allowedHosts.some(pattern => pattern.startsWith('*.')
+    ? hostname.endsWith(pattern.slice(1))
+    : hostname === pattern);
+}
+
+function checkUrl(url: URL, limits: FetchLimits): void {
+  const t = messages().upload;
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UploadError(t.onlyHttp(url.protocol));
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (!isHostAllowed(hostname, limits.allowedHosts)) {
+    throw new UploadError(t.hostNotAllowed(hostname));
+  }
+  if (!limits.allowPrivateAddresses && isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new UploadError(t.privateAddress(hostname));
+  }
+}
+
+/**
+ * Resolución DNS que rechaza los hosts que apuntan a direcciones internas.
+ * Se comprueba en el momento de conectar, así que un DNS que cambie entre la
+ * validación y la conexión (DNS rebinding) tampoco consigue saltársela.
+ */
+function guardedLookup(
+  hostname: string,
+  options: { family?: number; all?: boolean },
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void,
+): void {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      callback(new UploadError(messages().upload.resolvesToPrivate(hostname, blocked.address)), []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+function describeFetchError(error: unknown, url: URL, limits: FetchLimits): Error {
+  const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+  if (cause instanceof UploadError) {
+    return cause;
+  }
+
+  const t = messages().upload;
+  const code = (cause as { code?: string } | undefined)?.code;
+  switch (code) {
+    case 'UND_ERR_CONNECT_TIMEOUT':
+      return new UploadError(t.connectTimeout(url.host, limits.connectTimeoutMs));
+    case 'UND_ERR_HEADERS_TIMEOUT':
+    case 'UND_ERR_BODY_TIMEOUT':
+      return new UploadError(t.readTimeout(url.host, limits.readTimeoutMs));
+    case 'ENOTFOUND':
+      return new UploadError(t.unresolvedHost(url.hostname));
+  }
+  const message = cause instanceof Error ? cause.message : String(cause);
+  return new UploadError(t.downloadFailed(url.host, message));
+}
+
+/**
+ * Descarga un documento remoto con las restricciones de `limits`: solo
+ * http(s), lista de hosts permitidos, sin direcciones internas (también tras
+ * redirecciones y resolución DNS), límite de redirecciones, tiempos de espera
+ * y tamaño máximo comprobado mientras se recibe el cuerpo.
+ */
+export async function fetchRemoteDocument(rawUrl: string, limits = getFetchLimits()): Promise<Buffer> {
+  const dispatcher = new Agent({
+    connect: {
+      timeout: limits.connectTimeoutMs,
+      ...(limits.allowPrivateAddresses ? {} : { lookup: guardedLookup }),
+    },
+    headersTimeout: limits.readTimeoutMs,
+    bodyTimeout: limits.readTimeoutMs,
+  });
+
+  try {
+    let url = new URL(rawUrl);
+    for (let redirects = 0; ; redirects++) {
+      checkUrl(url, limits);
+
+      let response;
+      try {
+        response = await fetch(url, { dispatcher, redirect: 'manual' });
+      } catch (error) {
+        throw describeFetchError(error, url, limits);
+      }
+
+      if (response.status >= 300 && response.status < 400 && response.headers.has('location')) {
+        await response.body?.cancel();
+        if (redirects >= limits.maxRedirects) {
+          throw new UploadError(messages().upload.tooManyRedirects(limits.maxRedirects));
+        }
+        url = new URL(response.headers.get('location')!, url);
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new UploadError(messages().upload.downloadStatus(response.status));
+      }
+
+      const declaredLength = Number(response.headers.get('content-length'));
+      if (declaredLength > limits.maxBytes) {
+        await response.body?.cancel();
+        throw new UploadError(tooLargeMessage(limits.maxBytes));
+      }
+
+      return await readLimited(response.body, url, limits);
+    }
+  } finally {
+    dispatcher.close().catch(() => {});
+  }
+}
+
+async function readLimited(body: Response['body'], url: URL, limits: FetchLimits): Promise<Buffer> {
+  if (!body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      received += value.byteLength;
+      if (received > limits.maxBytes) {
+        await reader.cancel();
+        throw new UploadError(tooLargeMessage(limits.maxBytes));
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    throw error instanceof UploadError ? error : describeFetchError(error, url, limits);
+  }
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,85 @@
+import type { Locale } from '../i18n/locales.js';
+
+/** Nombre en cada idioma de los mensajes. */
+type LocalizedName = Record<Locale, string>;
+
+export type HolidayRule =
+  | { name: LocalizedName; month: number; day: number }
+  | { name: LocalizedName; easterOffset: number };
+
+/**
+ * Días inhábiles a efectos procesales. "ES" recoge las fiestas nacionales y
+ * los días 24 y 31 de diciembre (art. 183 LOPJ); las comunidades autónomas
+ * usan su código ISO 3166-2 y solo incluyen las fiestas que se repiten cada
+ * año. Las fiestas locales y las que cambian de un año a otro se añaden con
+ * LAR_EXTRA_HOLIDAYS o con el argumento extraHolidays.
+ *
+ * Sin dependencias, para que config.ts pueda validar los códigos.
+ */
+export const HOLIDAY_CALENDARS: Record<string, { name: LocalizedName; rules: HolidayRule[] }> = {
+  'ES': {
+    name: { es: 'España (nacional)', en: 'Spain (national)' },
+    rules: [
+      { name: { es: 'Año Nuevo', en: 'New Year\'s Day' }, month: 1, day: 1 },
+      { name: { es: 'Epifanía del Señor', en: 'Epiphany' }, month: 1, day: 6 },
+      { name: { es: 'Viernes Santo', en: 'Good Friday' }, easterOffset: -2 },
+      { name: { es: 'Fiesta del Trabajo', en: 'Labour Day' }, month: 5, day: 1 },
+      { name: { es: 'Asunción de la Virgen', en: 'Assumption of Mary' }, month: 8, day: 15 },
+      { name: { es: 'Fiesta Nacional de España', en: 'National Day of Spain' }, month: 10, day: 12 },
+      { name: { es: 'Todos los Santos', en: 'All Saints\' Day' }, month: 11, day: 1 },
+      { name: { es: 'Día de la Constitución', en: 'Constitution Day' }, month: 12, day: 6 },
+      { name: { es: 'Inmaculada Concepción', en: 'Immaculate Conception' }, month: 12, day: 8 },
+      { name: { es: 'Nochebuena (inhábil judicial)', en: 'Christmas Eve (non-working for the courts)' }, month: 12, day: 24 },
+      { name: { es: 'Navidad', en: 'Christmas Day' }, month: 12, day: 25 },
+      { name: { es: 'Nochevieja (inhábil judicial)', en: 'New Year\'s Eve (non-working for the courts)' }, month: 12, day: 31 },
+    ]
+  },
+  'ES-AN': {
+    name: { es: 'Andalucía', en: 'Andalusia' },
+    rules: [
+      { name: { es: 'Día de Andalucía', en: 'Andalusia Day' }, month: 2, day: 28 },
+      { name: { es: 'Jueves Santo', en: 'Maundy Thursday' }, easterOffset: -3 },
+    ]
+  },
+  'ES-CT': {
+    name: { es: 'Cataluña', en: 'Catalonia' },
+    rules: [
+      { name: { es: 'Lunes de Pascua', en: 'Easter Monday' }, easterOffset: 1 },
+      { name: { es: 'Sant Joan', en: 'Saint John\'s Day' }, month: 6, day: 24 },
+      { name: { es: 'Diada Nacional de Catalunya', en: 'National Day of Catalonia' }, month: 9, day: 11 },
+      { name: { es: 'Sant Esteve', en: 'Saint Stephen\'s Day' }, month: 12, day: 26 },
+    ]
+  },
+  'ES-GA': {
+    name: { es: 'Galicia', en: 'Galicia' },
+    rules: [
+      { name: { es: 'Jueves Santo', en: 'Maundy Thursday' }, easterOffset: -3 },
+      { name: { es: 'Día das Letras Galegas', en: 'Galician Literature Day' }, month: 5, day: 17 },
+      { name: { es: 'Día Nacional de Galicia', en: 'National Day of Galicia' }, month: 7, day: 25 },
+    ]
+  },
+  'ES-MD': {
+    name: { es: 'Comunidad de Madrid', en: 'Community of Madrid' },
+    rules: [
+      { name: { es: 'Jueves Santo', en: 'Maundy Thursday' }, easterOffset: -3 },
+      { name: { es: 'Fiesta de la Comunidad de Madrid', en: 'Community of Madrid Day' }, month: 5, day: 2 },
+    ]
+  },
+  'ES-PV': {
+    name: { es: 'País Vasco', en: 'Basque Country' },
+    rules: [
+      { name: { es: 'Jueves Santo', en: 'Maundy Thursday' }, easterOffset: -3 },
+      { name: { es: 'Lunes de Pascua', en: 'Easter Monday' }, easterOffset: 1 },
+    ]
+  },
+  'ES-VC': {
+    name: { es: 'Comunitat Valenciana', en: 'Valencian Community' },
+    rules: [
+      { name: { es: 'San José', en: 'Saint Joseph\'s Day' }, month: 3, day: 19 },
+      { name: { es: 'Lunes de Pascua', en: 'Easter Monday' }, easterOffset: 1 },
+      { name: { es: 'Día de la Comunitat Valenciana', en: 'Valencian Community Day' }, month: 10, day: 9 },
+    ]
+  },
+};
+
+export const HOLIDAY_CALENDAR_CODES = Object.keys(HOLIDAY_CALENDARS) as [string, ...string[]];
@@ -0,0 +1,156 @@
+import JSZip from 'jszip';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { LarApiClient } from '../api/client.js';
+import { Document } from '../api/types.js';
+import { messages } from '../i18n/index.js';
+import { caseDocumentLinks } from './caseDocuments.js';
+import { ConvertedDocument, convertToPdf } from './convert.js';
+import { fetchRemoteDocument, getFetchLimits } from './fetcher.js';
+import { UploadError, decodeBase64Document, readLocalDocument, tooLargeMessage } from './upload.js';
+
+export type DocumentSource =
+  | { url: string }
+  | { path: string }
+  | { contentBase64: string }
+  | { archiveEntry: JSZip.JSZipObject; archive: ArchiveBudget };
+
+/** Bytes que aún pueden descomprimirse de un mismo ZIP, compartidos por sus entradas. */
+export interface ArchiveBudget {
+  remaining: number;
+}
+
+export interface IngestedDocument {
+  document: Document;
+  converted: ConvertedDocument;
+  /** Si se pidió vincular a un caso y falló, el motivo; el documento queda subido. */
+  linkError?: string;
+}
+
+const MAX_ARCHIVE_ENTRIES = 200;
+
+async function loadSource(source: DocumentSource): Promise<{ data: Buffer; origin: string }> {
+  const origins = messages().upload.origins;
+  if ('url' in source) {
+    return { data: await fetchRemoteDocument(source.url), origin: origins.download };
+  }
+  if ('path' in source) {
+    return { data: await readLocalDocument(source.path), origin: origins.file(source.path) };
+  }
+  if ('contentBase64' in source) {
+    return { data: decodeBase64Document(source.contentBase64), origin: origins.content };
+  }
+  return { data: await readArchiveEntry(source.archiveEntry, source.archive), origin: origins.archiveEntry(source.archiveEntry.name) };
+}
+
+function readArchiveEntry(entry: JSZip.JSZipObject, archive: ArchiveBudget): Promise<Buffer> {
+  const { maxBytes } = getFetchLimits();
+  const t = messages().upload;
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  // Se descomprime en streaming para cortar antes de agotar la memoria: ni la
+  // entrada ni el total del ZIP pueden superar LAR_FETCH_MAX_BYTES, digan lo
+  // que digan sus cabeceras.
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer') as Readable;
+    const fail = (error: Error) => {
+      stream.destroy();
+      reject(error);
+    };
+    stream
+      .on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        archive.remaining -= chunk.length;
+        if (size > maxBytes) {
+          fail(new UploadError(t.archiveEntryTooLarge(entry.name)));
+        } else if (archive.remaining < 0) {
+          fail(new UploadError(t.archiveTooLarge((maxBytes / (1024 * 1024)).toFixed(1))));
+        } else {
+          chunks.push(chunk);
+        }
+      })
+      .on('error', reject)
+      .on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Descarga o lee el documento, lo convierte a PDF si hace falta, lo sube a
+ * /api/files y, si se indica `caseId`, lo vincula a ese caso.
+ */
+export async function ingestDocument(api: LarApiClient, name: string, source: DocumentSource, caseId?: number): Promise<IngestedDocument> {
+  const { data, origin } = await loadSource(source);
+  const converted = await convertToPdf(data, origin);
+
+  const fileName = converted.conversion ? name.replace(/\.[^./\\]+$/, '') + '.pdf' : name;
+  const fileBlob = new Blob([new Uint8Array(converted.data)], { type: 'application/pdf' });
+  const document = await api.uploadFile(name, fileBlob, fileName);
+
+  if (caseId === undefined) {
+    return { document, converted };
+  }
+  try {
+    if (document.id === undefined) {
+      throw new Error(messages().upload.missingDocumentId);
+    }
+    await caseDocumentLinks(api).attach(caseId, document.id);
+    return { document, converted };
+  } catch (error) {
+    return { document, converted, linkError: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/** Nombre por defecto: el último segmento de la URL o el nombre del fichero. */
+export function defaultDocumentName(source: { url?: string; path?: string }): string | undefined {
+  if (source.path) {
+    return path.basename(source.path);
+  }
+  if (source.url) {
+    const segment = new URL(source.url).pathname.split('/').filter(Boolean).pop();
+    if (!segment) {
+      return undefined;
+    }
+    // Un escape mal formado ("%E0%A4%A") no debe tumbar todo el lote.
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Enumera los ficheros de un ZIP sin descomprimirlos todavía. Se ignoran
+ * directorios, ficheros ocultos y metadatos de macOS. El ZIP no puede
+ * superar LAR_FETCH_MAX_BYTES, y lo que se descomprime se limita al leer cada
+ * entrada, con un presupuesto común a todas.
+ */
+export async function listArchiveEntries(archive: Buffer): Promise<{ name: string; source: DocumentSource }[]> {
+  const { maxBytes } = getFetchLimits();
+  if (archive.length > maxBytes) {
+    throw new UploadError(tooLargeMessage(maxBytes));
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    throw new UploadError(messages().upload.invalidArchive);
+  }
+
+  const entries = Object.values(zip.files).filter(entry => {
+    const base = path.posix.basename(entry.name);
+    return !entry.dir && !entry.name.startsWith('__MACOSX/') && !base.startsWith('.');
+  });
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new UploadError(messages().upload.tooManyArchiveEntries(entries.length, MAX_ARCHIVE_ENTRIES));
+  }
+
+  const budget: ArchiveBudget = { remaining: maxBytes };
+  return entries.map(entry => ({
+    name: path.posix.basename(entry.name),
+    source: { archiveEntry: entry, archive: budget },
+  }));
+}
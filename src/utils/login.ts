@@ -1,6 +1,14 @@
 import axios from 'axios';
+import { getConfig } from '../config.js';
+import { messages } from '../i18n/index.js';
 
-interface LoginResponse {
+export interface Credentials {
+  apiUrl: string;
+  email: string;
+  password: string;
+}
+
+export interface LoginResponse {
   token: string;
   expiration: string;
 }
@@ -9,29 +17,28 @@ interface UserIdResponse {
   userId: string;
 }
 
-export async function loginAPI(): Promise<string> {
-  const apiUrl = process.env.API_URL;
-  const email  = process.env.API_EMAIL;
-  const pass   = process.env.API_PASSWORD;
+/** Cuenta del backend configurada (API_URL, API_EMAIL y API_PASSWORD). */
+export function getCredentials(): Credentials {
+  const { url: apiUrl, email, password } = getConfig().backend;
 
-  if (!apiUrl || !email || !pass) {
-    throw new Error('Faltan las variables de entorno API_URL, API_EMAIL o API_PASSWORD');
+  if (!email || !password) {
+    throw new Error(messages().api.missingAccount);
   }
 
-  const url = `${apiUrl}/api/auth/login`;
+  return { apiUrl, email, password };
+}
+
+export async function loginAPI(credentials: Credentials = getCredentials()): Promise<LoginResponse> {
+  const url = `${credentials.apiUrl}/api/auth/login`;
   const { data } = await axios.post<LoginResponse>(url, {
-    email,
-    password: pass
+    email: credentials.email,
+    password: credentials.password
   });
 
-  return data.token;
+  return data;
 }
 
-export async function getUserId(): Promise<string> {
-
-  const token = await loginAPI();
-  const apiUrl = process.env.API_URL;
-  
+export async function getUserId(apiUrl: string, token: string): Promise<string> {
   const url = `${apiUrl}/api/auth/user-id`;
   
   const { data } = await axios.get<UserIdResponse>(url, {
@@ -41,4 +48,4 @@ export async function getUserId(): Promise<string> {
   });
   
   return data.userId;
-}
\ No newline at end of file
+}
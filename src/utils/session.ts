@@ -0,0 +1,168 @@
+import axios from 'axios';
+import { AuthError } from '../api/errors.js';
+import { messages } from '../i18n/index.js';
+import { Credentials, getCredentials, getUserId, loginAPI } from './login.js';
+
+// Margen con el que se renueva el token antes de que caduque.
+const REFRESH_MARGIN_MS = 60_000;
+// Duración supuesta si el backend no devuelve una expiración válida.
+const DEFAULT_TOKEN_TTL_MS = 15 * 60_000;
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+function jwtExpiration(token: string): number | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+    if (typeof payload.exp === 'number') {
+      return payload.exp * 1000;
+    }
+  } catch {
+    // Token opaco.
+  }
+  return undefined;
+}
+
+function parseExpiration(expiration: string | undefined, token: string): number {
+  const fromResponse = expiration ? Date.parse(expiration) : NaN;
+  if (!isNaN(fromResponse)) {
+    return fromResponse;
+  }
+
+  // Si la respuesta no trae una fecha válida, se usa el claim "exp" del JWT
+  // y, si el token es opaco, la duración por defecto.
+  return jwtExpiration(token) ?? Date.now() + DEFAULT_TOKEN_TTL_MS;
+}
+
+function isUnauthorized(error: unknown): boolean {
+  return axios.isAxiosError(error) && error.response?.status === 401;
+}
+
+/**
+ * Sesión autenticada contra el backend de Legal Assistant RAG.
+ *
+ * Guarda en caché el JWT y el id de usuario, renueva el token antes de que
+ * caduque y comparte un único login entre las llamadas concurrentes.
+ */
+export class BackendSession {
+  private cached?: CachedToken;
+  private pendingLogin?: Promise<CachedToken>;
+  private userId?: string;
+  private pendingUserId?: Promise<string>;
+
+  constructor(private readonly loadCredentials: () => Credentials = getCredentials) {}
+
+  get apiUrl(): string {
+    return this.loadCredentials().apiUrl;
+  }
+
+  async getToken(): Promise<string> {
+    if (this.cached && this.cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return this.cached.token;
+    }
+    return (await this.login()).token;
+  }
+
+  async getUserId(): Promise<string> {
+    if (this.userId) {
+      return this.userId;
+    }
+
+    if (!this.pendingUserId) {
+      this.pendingUserId = this.fetchUserId().finally(() => {
+        this.pendingUserId = undefined;
+      });
+    }
+    return this.pendingUserId;
+  }
+
+  invalidate(token?: string): void {
+    // Solo se descarta el token que ha fallado, no uno renovado entretanto.
+    if (!token || this.cached?.token === token) {
+      this.cached = undefined;
+    }
+  }
+
+  /**
+   * `fetch` con la cabecera Authorization. Si el backend responde 401 se
+   * descarta el token, se vuelve a hacer login y se reintenta una sola vez.
+   */
+  async fetch(input: string | URL, init: RequestInit = {}): Promise<Response> {
+    const token = await this.getToken();
+    const response = await fetch(input, this.withAuthorization(init, token));
+    if (response.status !== 401) {
+      return response;
+    }
+
+    this.invalidate(token);
+    const retryToken = await this.getToken();
+    return fetch(input, this.withAuthorization(init, retryToken));
+  }
+
+  private withAuthorization(init: RequestInit, token: string): RequestInit {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${token}`);
+    return { ...init, headers };
+  }
+
+  private login(): Promise<CachedToken> {
+    if (!this.pendingLogin) {
+      this.pendingLogin = loginAPI(this.loadCredentials())
+        .then(({ token, expiration }) => {
+          this.cached = { token, expiresAt: parseExpiration(expiration, token) };
+          return this.cached;
+        })
+        .finally(() => {
+          this.pendingLogin = undefined;
+        });
+    }
+    return this.pendingLogin;
+  }
+
+  private async fetchUserId(): Promise<string> {
+    const token = await this.getToken();
+    try {
+      this.userId = await getUserId(this.apiUrl, token);
+    } catch (error) {
+      if (!isUnauthorized(error)) {
+        throw error;
+      }
+      this.invalidate(token);
+      this.userId = await getUserId(this.apiUrl, await this.getToken());
+    }
+    return this.userId;
+  }
+}
+
+/**
+ * Sesión con un JWT del backend que reenvía el cliente MCP. No hay
+ * credenciales con las que renovarlo: si caduca o el backend lo rechaza, el
+ * usuario tiene que volver a iniciar sesión en su cliente.
+ */
+export class ForwardedTokenSession extends BackendSession {
+  constructor(private readonly token: string, private readonly backendUrl: string) {
+    super();
+  }
+
+  get apiUrl(): string {
+    return this.backendUrl;
+  }
+
+  async getToken(): Promise<string> {
+    const expiresAt = jwtExpiration(this.token);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      throw new AuthError(401, '', messages().api.forwardedTokenExpired);
+    }
+    return this.token;
+  }
+
+  async fetch(input: string | URL, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${await this.getToken()}`);
+    return fetch(input, { ...init, headers });
+  }
+}
+
+export const session = new BackendSession();
@@ -0,0 +1,147 @@
+export interface SseEvent {
+  /** Nombre del evento; "message" si el servidor no envía `event:`. */
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+/**
+ * Parser incremental de `text/event-stream` según la especificación de
+ * Server-Sent Events (WHATWG HTML, sección 9.2). Acepta el texto en trozos
+ * arbitrarios: las líneas y los eventos partidos entre trozos se acumulan
+ * hasta que llegan completos.
+ */
+export class SseParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventType = '';
+  private lastEventId?: string;
+  private retry?: number;
+
+  feed(chunk: string): SseEvent[] {
+    return this.consume(this.buffer + chunk, false);
+  }
+
+  /**
+   * Procesa lo que quede en el buffer al cerrarse el stream. La especificación
+   * descarta el último evento si no termina en línea en blanco; aquí se
+   * despacha igualmente para no perder el final de la respuesta.
+   */
+  end(): SseEvent[] {
+    const events = this.consume(this.buffer, true);
+    if (this.buffer) {
+      this.processLine(this.buffer, events);
+      this.buffer = '';
+    }
+    this.dispatch(events);
+    return events;
+  }
+
+  private consume(text: string, final: boolean): SseEvent[] {
+    const events: SseEvent[] = [];
+    let position = 0;
+
+    while (position < text.length) {
+      const lf = text.indexOf('\n', position);
+      const cr = text.indexOf('\r', position);
+      const lineEnd = lf === -1 ? cr : cr === -1 ? lf : Math.min(lf, cr);
+      if (lineEnd === -1) {
+        break;
+      }
+
+      let next = lineEnd + 1;
+      if (text[lineEnd] === '\r') {
+        // Un CR al final del trozo puede ser la primera mitad de un CRLF.
+        if (next === text.length && !final) {
+          break;
+        }
+        if (text[next] === '\n') {
+          next += 1;
+        }
+      }
+
+      this.processLine(text.slice(position, lineEnd), events);
+      position = next;
+    }
+
+    this.buffer = text.slice(position);
+    return events;
+  }
+
+  private processLine(line: string, events: SseEvent[]): void {
+    if (line === '') {
+      this.dispatch(events);
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = Number(value);
+        }
+        break;
+    }
+  }
+
+  private dispatch(events: SseEvent[]): void {
+    if (this.dataLines.length > 0) {
+      events.push({
+        event: this.eventType || 'message',
+        data: this.dataLines.join('\n'),
+        id: this.lastEventId,
+        retry: this.retry,
+      });
+    }
+    this.dataLines = [];
+    this.eventType = '';
+  }
+}
+
+/**
+ * Lee un cuerpo `text/event-stream` y devuelve sus eventos a medida que llegan.
+ * Si se aborta `signal` o el consumidor deja de iterar, se cancela el stream.
+ */
+export async function* readSseEvents(stream: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<SseEvent> {
+  const reader = stream.getReader();
+  const cancel = () => { reader.cancel().catch(() => {}); };
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  const parser = new SseParser();
+  const decoder = new TextDecoder();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* parser.feed(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.feed(decoder.decode());
+    yield* parser.end();
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    cancel();
+  }
+}
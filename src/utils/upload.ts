@@ -0,0 +1,71 @@
+import { readFile, realpath, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { getConfig } from '../config.js';
+import { messages } from '../i18n/index.js';
+
+/** El documento de origen no se puede subir; el mensaje se muestra tal cual. */
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export function tooLargeMessage(maxBytes: number): string {
+  return messages().upload.tooLarge((maxBytes / (1024 * 1024)).toFixed(1));
+}
+
+export function isPdf(data: Buffer): boolean {
+  // "magic number" del PDF
+  return data.subarray(0, 5).toString() === '%PDF-';
+}
+
+/** Directorios desde los que se permite subir ficheros locales (LAR_UPLOAD_DIRS). */
+export function getAllowedUploadDirs(): string[] {
+  return getConfig().upload.dirs.map(dir => path.resolve(dir));
+}
+
+function isInside(dir: string, file: string): boolean {
+  const relative = path.relative(dir, file);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+export async function readLocalDocument(filePath: string, allowedDirs = getAllowedUploadDirs()): Promise<Buffer> {
+  const t = messages().upload;
+  if (allowedDirs.length === 0) {
+    throw new UploadError(t.localDisabled);
+  }
+
+  // Se resuelven los enlaces simbólicos antes de comprobar el directorio.
+  let resolved: string;
+  try {
+    resolved = await realpath(path.resolve(filePath));
+  } catch {
+    throw new UploadError(t.fileNotFound(filePath));
+  }
+
+  const roots = await Promise.all(allowedDirs.map(dir => realpath(dir).catch(() => dir)));
+  if (!roots.some(root => isInside(root, resolved))) {
+    throw new UploadError(t.outsideAllowedDirs(filePath));
+  }
+
+  const info = await stat(resolved);
+  if (!info.isFile()) {
+    throw new UploadError(t.notAFile(filePath));
+  }
+  const { maxBytes } = getConfig().fetch;
+  if (info.size > maxBytes) {
+    throw new UploadError(tooLargeMessage(maxBytes));
+  }
+
+  return readFile(resolved);
+}
+
+export function decodeBase64Document(content: string): Buffer {
+  // Se admite también el formato data URL ("data:application/pdf;base64,...").
+  const payload = content.replace(/^data:[^,]*;base64,/, '').replace(/\s+/g, '');
+  if (!payload || !/^[A-Za-z0-9+/_-]+={0,2}$/.test(payload)) {
+    throw new UploadError(messages().upload.invalidBase64);
+  }
+  return Buffer.from(payload, 'base64');
+}
@@ -0,0 +1,181 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigError, loadConfig } from '../src/config.js';
+import { en } from '../src/i18n/en.js';
+import { es } from '../src/i18n/es.js';
+
+const dir = mkdtempSync(path.join(os.tmpdir(), 'lar-mcp-config-'));
+const hash = 'ab'.repeat(32);
+
+function configFile(name: string, content: string): string {
+  const file = path.join(dir, name);
+  writeFileSync(file, content);
+  return file;
+}
+
+function configError(): ConfigError {
+  try {
+    loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('loadConfig no lanzó ConfigError');
+}
+
+describe('loadConfig', () => {
+  beforeEach(() => {
+    // Se parte siempre de una configuración HTTP válida sin fichero.
+    vi.stubEnv('LAR_CONFIG_FILE', undefined);
+    vi.stubEnv('LAR_LOCALE', undefined);
+    vi.stubEnv('LAR_HTTP_AUTH', 'none');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('aplica los valores por defecto', () => {
+    const config = loadConfig();
+    expect(config.transport).toBe('http');
+    expect(config.locale).toBe('es');
+    expect(config.http).toEqual({ host: '0.0.0.0', port: 8080, sessionIdleMinutes: 30 });
+    expect(config.backend.url).toBe('http://localhost:3000');
+    expect(config.fetch.maxBytes).toBe(25 * 1024 * 1024);
+    expect(config.deadlines).toEqual({ calendars: ['ES'], extraHolidays: [], augustNonWorking: false });
+    expect(config.dataDir).toBe(path.join(os.homedir(), '.lar-mcp'));
+  });
+
+  it('convierte el texto de las variables de entorno', () => {
+    vi.stubEnv('LAR_HTTP_PORT', '9000');
+    vi.stubEnv('API_URL', 'https://lar.example.com/api//');
+    vi.stubEnv('LAR_FETCH_ALLOW_PRIVATE', 'true');
+    vi.stubEnv('LAR_FETCH_ALLOWED_HOSTS', 'BOE.es, *.example.com,');
+    vi.stubEnv('LAR_OAUTH_REQUIRED_SCOPES', 'cases:read  cases:write');
+    vi.stubEnv('LAR_HOLIDAY_CALENDARS', 'ES,ES-MD');
+
+    const config = loadConfig();
+    expect(config.http.port).toBe(9000);
+    expect(config.backend.url).toBe('https://lar.example.com/api');
+    expect(config.fetch.allowPrivateAddresses).toBe(true);
+    expect(config.fetch.allowedHosts).toEqual(['boe.es', '*.example.com']);
+    expect(config.auth.oauth.requiredScopes).toEqual(['cases:read', 'cases:write']);
+    expect(config.deadlines.calendars).toEqual(['ES', 'ES-MD']);
+  });
+
+  it('ignora las variables de entorno vacías', () => {
+    vi.stubEnv('LAR_HTTP_PORT', '');
+    expect(loadConfig().http.port).toBe(8080);
+  });
+
+  it('lee las claves de API con su hash en minúsculas', () => {
+    vi.stubEnv('LAR_HTTP_AUTH', undefined);
+    vi.stubEnv('LAR_API_KEYS', `alice:sha256:${hash.toUpperCase()}, bob:${hash}`);
+    expect(loadConfig().auth.apiKeys).toEqual([{ id: 'alice', hash }, { id: 'bob', hash }]);
+  });
+
+  it('rechaza las claves de API sin id o con un hash inválido', () => {
+    vi.stubEnv('LAR_API_KEYS', `:${hash},sha256:${hash},alice:1234`);
+    expect(configError().problems).toHaveLength(3);
+  });
+
+  it('da prioridad a las variables de entorno sobre el fichero de configuración', () => {
+    vi.stubEnv('LAR_CONFIG_FILE', configFile('prioridad.json', JSON.stringify({
+      http: { port: 7000, host: '127.0.0.1' },
+      fetch: { allowedHosts: ['boe.es'] },
+    })));
+    vi.stubEnv('LAR_HTTP_PORT', '9000');
+
+    const config = loadConfig();
+    expect(config.http.port).toBe(9000);
+    expect(config.http.host).toBe('127.0.0.1');
+    expect(config.fetch.allowedHosts).toEqual(['boe.es']);
+  });
+
+  it('enumera todos los problemas con la variable que los causa', () => {
+    vi.stubEnv('LAR_HTTP_PORT', 'ochenta');
+    vi.stubEnv('LAR_HOLIDAY_CALENDARS', 'ES,ES-XX');
+    vi.stubEnv('LAR_API_KEYS', 'alice');
+
+    const error = configError();
+    expect(error.problems).toHaveLength(3);
+    expect(error.problems[0]).toMatch(/^LAR_HTTP_PORT: /);
+    expect(error.problems).toContain(`LAR_API_KEYS: ${es.config.invalidApiKey('alice')}`);
+    expect(error.problems.some(problem => problem.startsWith('LAR_HOLIDAY_CALENDARS: '))).toBe(true);
+    expect(error.message.startsWith(es.config.invalid)).toBe(true);
+  });
+
+  it('indica también la entrada del fichero si lo hay', () => {
+    const file = configFile('extra.json', JSON.stringify({ deadlines: { extraHolidays: ['31/12'] } }));
+    vi.stubEnv('LAR_CONFIG_FILE', file);
+
+    expect(configError().problems).toEqual([
+      `LAR_EXTRA_HOLIDAYS${es.config.or}${es.config.fileEntry('deadlines.extraHolidays', file)}: ${es.config.invalidHoliday}`,
+    ]);
+  });
+
+  it('exige autenticación en modo HTTP salvo que se desactive', () => {
+    vi.stubEnv('LAR_HTTP_AUTH', undefined);
+    expect(configError().problems).toEqual([`LAR_API_KEYS: ${es.config.httpNeedsAuth}`]);
+  });
+
+  it('exige la cuenta del backend en modo stdio', () => {
+    vi.stubEnv('MCP_TRANSPORT', 'stdio');
+    vi.stubEnv('API_EMAIL', 'abogada@example.com');
+    expect(configError().problems).toEqual([`API_PASSWORD: ${es.config.stdioNeedsAccount}`]);
+  });
+
+  it('exige el emisor y la URL de introspección de OAuth a la vez', () => {
+    vi.stubEnv('LAR_OAUTH_ISSUER', 'https://auth.example.com');
+    expect(configError().problems).toEqual([`LAR_OAUTH_INTROSPECTION_URL: ${es.config.oauthNeedsBoth}`]);
+  });
+
+  it('describe los problemas en el idioma de LAR_LOCALE', () => {
+    vi.stubEnv('LAR_LOCALE', 'en');
+    vi.stubEnv('LAR_HTTP_AUTH', undefined);
+
+    const error = configError();
+    expect(error.problems).toEqual([`LAR_API_KEYS: ${en.config.httpNeedsAuth}`]);
+    expect(error.message.startsWith(en.config.invalid)).toBe(true);
+  });
+
+  it('acepta el idioma con región', () => {
+    vi.stubEnv('LAR_LOCALE', 'en-US');
+    expect(loadConfig().locale).toBe('en');
+
+    vi.stubEnv('LAR_LOCALE', 'es_ES');
+    expect(loadConfig().locale).toBe('es');
+  });
+
+  it('rechaza un idioma sin traducción', () => {
+    vi.stubEnv('LAR_LOCALE', 'fr-FR');
+    const [problem] = configError().problems;
+    expect(problem).toMatch(/^LAR_LOCALE: /);
+  });
+
+  it('toma el idioma del fichero de configuración', () => {
+    vi.stubEnv('LAR_CONFIG_FILE', configFile('locale.json', JSON.stringify({ locale: 'en' })));
+    vi.stubEnv('LAR_HTTP_AUTH', undefined);
+
+    const [problem] = configError().problems;
+    expect(problem.endsWith(`: ${en.config.httpNeedsAuth}`)).toBe(true);
+  });
+
+  it('rechaza un fichero de configuración ilegible o que no es un objeto', () => {
+    const missing = path.join(dir, 'no-existe.json');
+    vi.stubEnv('LAR_CONFIG_FILE', missing);
+    expect(configError().problems[0]).toMatch(/^no se pudo leer el fichero de configuración /);
+
+    const array = configFile('lista.json', '[]');
+    vi.stubEnv('LAR_CONFIG_FILE', array);
+    expect(configError().problems).toEqual([es.config.fileNotObject(array)]);
+  });
+});
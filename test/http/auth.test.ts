@@ -0,0 +1,143 @@
+import type { Request, RequestHandler, Response as ExpressResponse } from 'express';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHttpAuth, hashApiKey, HttpAuthSettings, OAuthSettings } from '../../src/http/auth.js';
+import { es } from '../../src/i18n/es.js';
+
+const PUBLIC_URL = 'https://mcp.example.com';
+
+const oauth: OAuthSettings = {
+  issuer: 'https://auth.example.com/',
+  introspectionUrl: 'https://auth.example.com/introspect',
+  requiredScopes: [],
+};
+
+function settings(overrides: Partial<OAuthSettings> = {}): HttpAuthSettings {
+  return { disabled: false, apiKeys: [{ id: 'alice', hash: hashApiKey('clave-de-alice') }], oauth: { ...oauth, ...overrides } };
+}
+
+/** Respuesta del endpoint de introspección para el siguiente token. */
+function introspection(body: Record<string, unknown>) {
+  const fetch = vi.fn(async () => Response.json(body));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+function activeToken(overrides: Record<string, unknown> = {}) {
+  return {
+    active: true,
+    iss: 'https://auth.example.com',
+    aud: `${PUBLIC_URL}/mcp`,
+    client_id: 'app',
+    sub: 'bob',
+    scope: 'cases:read',
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    ...overrides,
+  };
+}
+
+/** Pasa la petición por el middleware y devuelve el resultado: la identidad o el error. */
+async function authenticate(middleware: RequestHandler[], token: string) {
+  const req = { headers: { authorization: `Bearer ${token}` } } as Request & { auth?: unknown };
+  let status = 200;
+  let body: unknown;
+  const res = {
+    set: () => res,
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: (value: unknown) => {
+      body = value;
+      return res;
+    },
+  } as unknown as ExpressResponse;
+
+  for (const handler of middleware) {
+    let next = false;
+    await handler(req, res, () => { next = true; });
+    if (!next) break;
+  }
+  return { status, body: body as { error_description?: string } | undefined, auth: req.auth };
+}
+
+describe('createHttpAuth', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('acepta una clave de API válida sin consultar al servidor de autorización', async () => {
+    const fetch = introspection({ active: false });
+    const { middleware } = createHttpAuth(settings(), PUBLIC_URL);
+
+    const { status, auth } = await authenticate(middleware, 'clave-de-alice');
+    expect(status).toBe(200);
+    expect(auth).toMatchObject({ clientId: 'alice', extra: { method: 'api-key' } });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('acepta un token OAuth activo emitido para este servidor', async () => {
+    introspection(activeToken());
+    const { middleware } = createHttpAuth(settings(), PUBLIC_URL);
+
+    const { status, auth } = await authenticate(middleware, 'token-valido');
+    expect(status).toBe(200);
+    expect(auth).toMatchObject({ clientId: 'app', scopes: ['cases:read'], extra: { subject: 'bob' } });
+  });
+
+  it('rechaza un token inactivo', async () => {
+    introspection({ active: false });
+    const { middleware } = createHttpAuth(settings(), PUBLIC_URL);
+
+    const { status, body } = await authenticate(middleware, 'token-revocado');
+    expect(status).toBe(401);
+    expect(body?.error_description).toBe(es.http.inactiveToken);
+  });
+
+  it('rechaza un token de otro emisor', async () => {
+    introspection(activeToken({ iss: 'https://otro.example.com' }));
+    const { middleware } = createHttpAuth(settings(), PUBLIC_URL);
+
+    const { status, body } = await authenticate(middleware, 'token-ajeno');
+    expect(status).toBe(401);
+    expect(body?.error_description).toBe(es.http.otherIssuer);
+  });
+
+  it('comprueba la audiencia con la URL pública aunque no se configure LAR_OAUTH_RESOURCE', async () => {
+    introspection(activeToken({ aud: 'https://otro-servidor.example.com/mcp' }));
+    const { middleware } = createHttpAuth(settings(), PUBLIC_URL);
+
+    const { status, body } = await authenticate(middleware, 'token-de-otro-servidor');
+    expect(status).toBe(401);
+    expect(body?.error_description).toBe(es.http.otherAudience);
+  });
+
+  it('rechaza un token sin audiencia', async () => {
+    introspection(activeToken({ aud: undefined }));
+    const { middleware } = createHttpAuth(settings(), PUBLIC_URL);
+
+    expect((await authenticate(middleware, 'token-sin-audiencia')).status).toBe(401);
+  });
+
+  it('usa LAR_OAUTH_RESOURCE como audiencia cuando se configura', async () => {
+    introspection(activeToken({ aud: ['https://api.example.com/', 'https://otro.example.com'] }));
+    const { middleware } = createHttpAuth(settings({ resource: 'https://api.example.com' }), PUBLIC_URL);
+
+    expect((await authenticate(middleware, 'token-con-recurso')).status).toBe(200);
+  });
+
+  it('rechaza un token que no identifica al cliente ni al usuario', async () => {
+    introspection(activeToken({ client_id: undefined, sub: undefined }));
+    const { middleware } = createHttpAuth(settings(), PUBLIC_URL);
+
+    const { status, body } = await authenticate(middleware, 'token-anonimo');
+    expect(status).toBe(401);
+    expect(body?.error_description).toBe(es.http.anonymousToken);
+  });
+
+  it('responde con un error del servidor si falla la introspección', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('caído', { status: 503 })));
+    const { middleware } = createHttpAuth(settings(), PUBLIC_URL);
+
+    expect((await authenticate(middleware, 'token-cualquiera')).status).toBe(500);
+  });
+});
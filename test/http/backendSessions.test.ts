@@ -0,0 +1,134 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { Request } from 'express';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { Config, ConfigError } from '../../src/config.js';
+import {
+  BackendIdentityError,
+  BackendSessionRegistry,
+  BackendSessionSettings,
+  getBackendSessionSettings,
+} from '../../src/http/backendSessions.js';
+import { es } from '../../src/i18n/es.js';
+import { ForwardedTokenSession } from '../../src/utils/session.js';
+
+const API_URL = 'http://backend.test';
+const dir = mkdtempSync(path.join(os.tmpdir(), 'lar-mcp-users-'));
+
+function registry(overrides: Partial<BackendSessionSettings> = {}): BackendSessionRegistry {
+  return new BackendSessionRegistry({
+    apiUrl: API_URL,
+    forwardTokens: true,
+    users: new Map([
+      ['alice', { email: 'alice@example.com', password: 'a' }],
+      ['bob', { email: 'bob@example.com', password: 'b' }],
+    ]),
+    sharedAccount: false,
+    idleMs: 60_000,
+    ...overrides,
+  });
+}
+
+function request(caller?: string, backendToken?: string): Request & { auth?: AuthInfo } {
+  return {
+    headers: backendToken ? { 'x-lar-backend-token': backendToken } : {},
+    auth: caller ? { token: 't', clientId: 'app', scopes: [], extra: { username: caller } } : undefined,
+  } as Request & { auth?: AuthInfo };
+}
+
+function usersSettings(content: string): BackendSessionSettings {
+  const file = path.join(dir, 'users.json');
+  writeFileSync(file, content);
+  return getBackendSessionSettings({
+    backend: { url: API_URL, usersFile: file, forwardTokens: true, sharedAccount: false },
+    http: { sessionIdleMinutes: 30 },
+  } as Config);
+}
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('BackendSessionRegistry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('da a cada usuario su propia sesión y la reutiliza en sus peticiones', () => {
+    const sessions = registry();
+    const alice = sessions.resolve(request('alice'));
+
+    expect(sessions.resolve(request('alice'))).toBe(alice);
+    expect(sessions.resolve(request('bob'))).not.toBe(alice);
+    expect(alice.apiUrl).toBe(API_URL);
+  });
+
+  it('prefiere el token del backend reenviado a las credenciales configuradas', () => {
+    const sessions = registry();
+    const forwarded = sessions.resolve(request('alice', 'Bearer jwt-de-alice'));
+
+    expect(forwarded).toBeInstanceOf(ForwardedTokenSession);
+    expect(sessions.resolve(request('bob', 'jwt-de-alice'))).toBe(forwarded);
+    expect(sessions.resolve(request('alice', 'otro-jwt'))).not.toBe(forwarded);
+  });
+
+  it('rechaza los tokens reenviados si están desactivados', () => {
+    expect(() => registry({ forwardTokens: false }).resolve(request('alice', 'jwt')))
+      .toThrow(es.http.forwardedTokensDisabled);
+  });
+
+  it('no usa la cuenta compartida salvo que se permita', () => {
+    expect(() => registry().resolve(request('carol'))).toThrow(es.http.noBackendCredentials('carol'));
+    expect(() => registry().resolve(request())).toThrow(BackendIdentityError);
+
+    const sessions = registry({ sharedAccount: true });
+    expect(sessions.resolve(request('carol'))).toBe(sessions.resolve(request()));
+    expect(sessions.resolve(request('alice'))).not.toBe(sessions.resolve(request('carol')));
+  });
+
+  it('descarta la sesión de un usuario tras el tiempo sin uso', () => {
+    vi.useFakeTimers();
+    const sessions = registry();
+    const alice = sessions.resolve(request('alice'));
+
+    vi.advanceTimersByTime(30_000);
+    expect(sessions.resolve(request('alice'))).toBe(alice);
+    vi.advanceTimersByTime(60_001);
+    expect(sessions.resolve(request('alice'))).not.toBe(alice);
+  });
+
+  it('expone la sesión solo mientras se atiende la petición', () => {
+    const sessions = registry();
+    const alice = sessions.resolve(request('alice'));
+
+    expect(sessions.run(request('alice'), () => sessions.current())).toBe(alice);
+    expect(() => sessions.current()).toThrow(es.http.sendBackendToken);
+  });
+});
+
+describe('getBackendSessionSettings', () => {
+  it('lee las credenciales de cada usuario del fichero', () => {
+    const { users, idleMs } = usersSettings(JSON.stringify({ alice: { email: 'alice@example.com', password: 'secreto' } }));
+    expect([...users]).toEqual([['alice', { email: 'alice@example.com', password: 'secreto' }]]);
+    expect(idleMs).toBe(30 * 60 * 1000);
+  });
+
+  it('enumera los usuarios sin email o password', () => {
+    try {
+      usersSettings(JSON.stringify({ alice: { email: 'alice@example.com' }, bob: null }));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      expect((error as ConfigError).problems).toEqual([
+        es.config.userWithoutCredentials('alice'),
+        es.config.userWithoutCredentials('bob'),
+      ]);
+    }
+  });
+
+  it('rechaza un fichero que no es un objeto', () => {
+    expect(() => usersSettings('[]')).toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,102 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createHttpAuth, hashApiKey } from '../../src/http/auth.js';
+import { getJsonBodyLimit, handleBodyError, McpSessionManager } from '../../src/http/sessions.js';
+import { es } from '../../src/i18n/es.js';
+
+const auth = createHttpAuth({
+  disabled: false,
+  apiKeys: [{ id: 'alice', hash: hashApiKey('clave-de-alice') }, { id: 'bob', hash: hashApiKey('clave-de-bob') }],
+}, 'http://localhost');
+
+const sessions = new McpSessionManager(() => new McpServer({ name: 'test', version: '1.0.0' }));
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json({ limit: getJsonBodyLimit() }));
+  app.post('/mcp', ...auth.middleware, sessions.handleStreamable);
+  app.get('/mcp', ...auth.middleware, sessions.handleStreamable);
+  app.delete('/mcp', ...auth.middleware, sessions.handleStreamable);
+  app.use(handleBodyError);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+});
+
+afterAll(async () => {
+  await sessions.closeAll();
+  await new Promise(resolve => server.close(resolve));
+});
+
+function post(key: string, body: unknown, sessionId?: string): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${key}`,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function initialize(key: string): Promise<string> {
+  const response = await post(key, {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+  });
+  expect(response.status).toBe(200);
+  await response.text();
+  return response.headers.get('mcp-session-id')!;
+}
+
+const ping = { jsonrpc: '2.0', id: 2, method: 'ping' };
+
+describe('McpSessionManager', () => {
+  it('rechaza las peticiones sin sesión que no son initialize', async () => {
+    const response = await post('clave-de-alice', ping);
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toBe(es.http.missingSessionId);
+  });
+
+  it('atiende las peticiones del usuario que abrió la sesión', async () => {
+    const sessionId = await initialize('clave-de-alice');
+    const response = await post('clave-de-alice', ping, sessionId);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('"result":{}');
+  });
+
+  it('trata la sesión de otro usuario como inexistente', async () => {
+    const sessionId = await initialize('clave-de-alice');
+
+    const response = await post('clave-de-bob', ping, sessionId);
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.message).toBe(es.http.sessionNotFound);
+
+    const close = await fetch(url, { method: 'DELETE', headers: { Authorization: 'Bearer clave-de-bob', 'Mcp-Session-Id': sessionId } });
+    expect(close.status).toBe(404);
+    await close.text();
+
+    // La sesión sigue abierta para su dueña.
+    const own = await post('clave-de-alice', ping, sessionId);
+    expect(own.status).toBe(200);
+    await own.text();
+  });
+
+  it('cierra la sesión con DELETE', async () => {
+    const sessionId = await initialize('clave-de-alice');
+    const close = await fetch(url, { method: 'DELETE', headers: { Authorization: 'Bearer clave-de-alice', 'Mcp-Session-Id': sessionId } });
+    expect(close.status).toBe(200);
+    await close.text();
+
+    expect((await post('clave-de-alice', ping, sessionId)).status).toBe(404);
+  });
+});
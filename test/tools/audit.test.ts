@@ -0,0 +1,76 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { LarApiClient } from '../../src/api/client.js';
+import { es } from '../../src/i18n/es.js';
+import { withLocale } from '../../src/i18n/index.js';
+import { getAuditStore } from '../../src/store/auditLog.js';
+import { audited } from '../../src/tools/audit.js';
+import { ToolExtra } from '../../src/tools/progress.js';
+import { errorResult, textResult } from '../../src/tools/results.js';
+
+const dir = mkdtempSync(path.join(os.tmpdir(), 'lar-mcp-audit-'));
+// El registro en fichero se escribe en el directorio de datos de la configuración.
+vi.stubEnv('LAR_DATA_DIR', dir);
+
+const api = { getUserId: async () => 'u1' } as unknown as LarApiClient;
+
+function extraFor(username: string): ToolExtra {
+  return { authInfo: { token: 't', clientId: 'app', scopes: [], extra: { username } } } as unknown as ToolExtra;
+}
+
+describe('audited', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('registra quién llamó, con qué argumentos y el resultado', async () => {
+    const handler = audited(api, 'lar-edit-client', { entity: 'client', entityId: ({ clientId }: { clientId: number }) => clientId },
+      async () => textResult('ok'));
+
+    await handler({ clientId: 4, confirmationToken: 'secreto', notes: 'x'.repeat(2000) } as { clientId: number }, extraFor('alice'));
+
+    const [entry] = await getAuditStore().query({ tool: 'lar-edit-client' });
+    expect(entry).toMatchObject({
+      actor: { userId: 'u1', clientId: 'alice' },
+      entity: 'client',
+      entityId: '4',
+      arguments: { clientId: 4, confirmationToken: es.audit.hidden, notes: es.audit.omitted(2000) },
+      status: 'success',
+    });
+  });
+
+  it('guarda el error de las llamadas fallidas', async () => {
+    const handler = audited(api, 'lar-delete-case', { entity: 'case' }, async () => errorResult('Error al eliminar', 'no existe'));
+
+    await handler({}, extraFor('bob'));
+
+    const [entry] = await getAuditStore().query({ tool: 'lar-delete-case' });
+    expect(entry).toMatchObject({ status: 'error', error: 'Error al eliminar: no existe' });
+  });
+
+  it('filtra las entradas por el usuario MCP', async () => {
+    const handler = audited(api, 'lar-create-case', { entity: 'case' }, async () => textResult('ok'));
+    await handler({}, extraFor('alice'));
+    await handler({}, extraFor('bob'));
+
+    const entries = await getAuditStore().query({ tool: 'lar-create-case', clientId: 'bob' });
+    expect(entries.map(entry => entry.actor.clientId)).toEqual(['bob']);
+  });
+
+  it('no deshace la llamada si falla el registro y avisa en el idioma configurado', async () => {
+    vi.spyOn(getAuditStore(), 'append').mockRejectedValueOnce(new Error('disco lleno'));
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = audited(api, 'lar-create-client', { entity: 'client' }, async () => textResult('creado'));
+
+    // La petición llega en inglés, pero el aviso es para el operador.
+    const result = await withLocale('en', () => handler({}, extraFor('alice')));
+    expect(result).toEqual(textResult('creado'));
+    expect(log).toHaveBeenCalledWith(es.audit.logFailed('lar-create-client'), expect.any(Error));
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidCursorError, ListingOptions, paginate, sortBy } from '../../src/tools/listing.js';
+
+const items = Array.from({ length: 45 }, (_, index) => index + 1);
+
+function options(overrides: Partial<ListingOptions> = {}): ListingOptions {
+  return { sortOrder: 'asc', limit: 20, view: 'summary', ...overrides };
+}
+
+describe('paginate', () => {
+  it('devuelve la primera página y un cursor a la siguiente', () => {
+    const page = paginate(items, options());
+    expect(page.items).toEqual(items.slice(0, 20));
+    expect(page.offset).toBe(0);
+    expect(page.total).toBe(45);
+    expect(page.nextCursor).toBeDefined();
+  });
+
+  it('recorre todas las páginas siguiendo el cursor', () => {
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = paginate(items, options({ cursor }));
+      seen.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+    expect(seen).toEqual(items);
+  });
+
+  it('calcula el offset a partir del número de página', () => {
+    const page = paginate(items, options({ page: 3 }));
+    expect(page.items).toEqual([41, 42, 43, 44, 45]);
+    expect(page.offset).toBe(40);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('da prioridad al cursor sobre la página', () => {
+    const { nextCursor } = paginate(items, options({ limit: 10 }));
+    const page = paginate(items, options({ limit: 10, page: 4, cursor: nextCursor }));
+    expect(page.offset).toBe(10);
+  });
+
+  it('devuelve una página vacía más allá del final', () => {
+    const page = paginate(items, options({ page: 5 }));
+    expect(page.items).toEqual([]);
+    expect(page.total).toBe(45);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('no devuelve cursor si la página llega justo al final', () => {
+    expect(paginate(items.slice(0, 20), options()).nextCursor).toBeUndefined();
+  });
+
+  it.each([
+    'no-es-base64-json',
+    Buffer.from(JSON.stringify({ offset: -1 })).toString('base64url'),
+    Buffer.from(JSON.stringify({ offset: 1.5 })).toString('base64url'),
+    Buffer.from(JSON.stringify({ page: 2 })).toString('base64url'),
+  ])('rechaza el cursor inválido %s', cursor => {
+    expect(() => paginate(items, options({ cursor }))).toThrow(InvalidCursorError);
+  });
+});
+
+describe('sortBy', () => {
+  const records = [
+    { name: 'beatriz', amount: 10 },
+    { name: 'Álvaro', amount: undefined },
+    { name: 'carmen', amount: 2 },
+    { name: '', amount: 5 },
+    { name: 'Expediente 10', amount: null },
+    { name: 'Expediente 9', amount: 7 },
+  ];
+
+  it('ordena textos sin distinguir mayúsculas ni acentos y con los números en orden natural', () => {
+    expect(sortBy(records, record => record.name, 'asc').map(record => record.name))
+      .toEqual(['Álvaro', 'beatriz', 'carmen', 'Expediente 9', 'Expediente 10', '']);
+  });
+
+  it('ordena números y deja los valores vacíos al final también en orden descendente', () => {
+    expect(sortBy(records, record => record.amount, 'desc').map(record => record.amount))
+      .toEqual([10, 7, 5, 2, undefined, null]);
+  });
+
+  it('no modifica la lista original', () => {
+    const copy = [...records];
+    sortBy(records, record => record.amount, 'asc');
+    expect(records).toEqual(copy);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { LarApiClient } from '../../src/api/client.js';
+import { Case } from '../../src/api/types.js';
+import { CourtHearing, loadHearings, toICalendar } from '../../src/utils/calendar.js';
+
+const now = new Date('2025-03-01T09:30:00.000Z');
+
+function hearing(overrides: Partial<CourtHearing> = {}): CourtHearing {
+  return {
+    caseId: 12,
+    title: 'Reclamación de cantidad',
+    status: 'Open',
+    clientId: 3,
+    clientName: 'Ana García',
+    start: new Date('2025-03-10T09:00:00.000Z'),
+    allDay: false,
+    ...overrides,
+  };
+}
+
+/** Deshace el plegado de líneas de RFC 5545. */
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('toICalendar', () => {
+  it('genera un calendario vacío con la cabecera y CRLF al final', () => {
+    const ics = toICalendar([], { name: 'Vistas', minutes: 120, now });
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(unfold(ics)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Legal Assistant RAG//lar-mcp//ES',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Vistas',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('crea una VEVENT con hora de inicio y la duración indicada', () => {
+    const lines = unfold(toICalendar([hearing()], { name: 'Vistas', minutes: 90, now }));
+    expect(lines).toContain('BEGIN:VEVENT');
+    expect(lines).toContain('UID:case-12-20250310T090000Z@lar-mcp');
+    expect(lines).toContain('DTSTAMP:20250301T093000Z');
+    expect(lines).toContain('DTSTART:20250310T090000Z');
+    expect(lines).toContain('DTEND:20250310T103000Z');
+    expect(lines).toContain('SUMMARY:Vista: Reclamación de cantidad');
+    expect(lines).toContain('DESCRIPTION:Caso 12 (Open)\\nCliente: Ana García');
+    expect(lines).toContain('CATEGORIES:Open');
+    expect(lines).toContain('END:VEVENT');
+  });
+
+  it('usa fechas sin hora para las vistas de día completo', () => {
+    const start = new Date('2025-12-31T00:00:00.000Z');
+    const lines = unfold(toICalendar([hearing({ start, allDay: true })], { name: 'Vistas', minutes: 120, now }));
+    expect(lines).toContain('DTSTART;VALUE=DATE:20251231');
+    expect(lines).toContain('DTEND;VALUE=DATE:20260101');
+  });
+
+  it('usa el id del cliente si no se conoce su nombre', () => {
+    const lines = unfold(toICalendar([hearing({ clientName: undefined })], { name: 'Vistas', minutes: 120, now }));
+    expect(lines).toContain('DESCRIPTION:Caso 12 (Open)\\nCliente: 3');
+  });
+
+  it('escapa barras invertidas, puntos y comas, comas y saltos de línea', () => {
+    const ics = toICalendar([hearing({ title: 'A, B; C\\D\nE' })], { name: 'Vistas, 2025', minutes: 120, now });
+    const lines = unfold(ics);
+    expect(lines).toContain('X-WR-CALNAME:Vistas\\, 2025');
+    expect(lines).toContain('SUMMARY:Vista: A\\, B\\; C\\\\D\\nE');
+  });
+
+  it('pliega las líneas largas a 75 octetos sin partir caracteres UTF-8', () => {
+    const title = 'ñ'.repeat(100);
+    const ics = toICalendar([hearing({ title })], { name: 'Vistas', minutes: 120, now });
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics)).toContain(`SUMMARY:Vista: ${title}`);
+  });
+});
+
+describe('loadHearings', () => {
+  const cases = [
+    { id: 1, title: 'Primera hora', courtDate: '2025-03-09T23:30:00.000Z' },
+    { id: 2, title: 'Día completo', courtDate: '2025-03-10T00:00:00.000Z' },
+    { id: 3, title: 'Medianoche siguiente', courtDate: '2025-03-10T23:30:00.000Z' },
+    { id: 4, title: 'Sin vista' },
+  ].map(legalCase => ({ status: 'Open', clientId: 3, ...legalCase })) as Case[];
+  const api = {
+    listCases: async () => cases,
+    listClients: async () => [{ id: 3, name: 'Ana García' }],
+  } as unknown as LarApiClient;
+
+  it('filtra por el día de la vista en la zona horaria indicada, no en UTC', async () => {
+    const hearings = await loadHearings(api, { from: '2025-03-10', to: '2025-03-10', timeZone: 'Europe/Madrid' });
+    expect(hearings.map(hearing => hearing.caseId)).toEqual([1, 2]);
+    expect(hearings[0].clientName).toBe('Ana García');
+    expect(hearings[1].allDay).toBe(true);
+  });
+
+  it('mantiene las vistas de día completo en su día al oeste de UTC', async () => {
+    const hearings = await loadHearings(api, { from: '2025-03-10', timeZone: 'America/New_York' });
+    expect(hearings.map(hearing => hearing.caseId)).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LarApiClient } from '../../src/api/client.js';
+import { Case, CaseInput, Client } from '../../src/api/types.js';
+import { es } from '../../src/i18n/es.js';
+import { buildClientDeletionPlan, DeletionPlanError, executeClientDeletionPlan } from '../../src/utils/clientDeletion.js';
+
+const clients: Client[] = [
+  { id: 1, name: 'Ana', contactInformation: 'ana@example.com' },
+  { id: 2, name: 'Archivo', contactInformation: 'archivo@example.com' },
+];
+
+const cases: Case[] = [
+  { id: 10, title: 'Desahucio', status: 'Open', clientId: 1, assignedUserId: 'u1' },
+  { id: 11, title: 'Herencia', status: 'Pending', clientId: 1, assignedUserId: 'u1' },
+  { id: 12, title: 'Otro cliente', status: 'Open', clientId: 2, assignedUserId: 'u1' },
+];
+
+/** Backend falso: `failOn` decide qué llamada falla. */
+function fakeApi(failOn: (call: string, id: number, input?: CaseInput) => boolean = () => false) {
+  const calls: string[] = [];
+  const fail = (call: string, id: number, input?: CaseInput) => {
+    calls.push(`${call}:${id}${input ? `->${input.clientId}` : ''}`);
+    if (failOn(call, id, input)) {
+      throw new Error(`falla ${call} ${id}`);
+    }
+  };
+  const api = {
+    getUserId: vi.fn(async () => 'u1'),
+    getClient: vi.fn(async (id: number) => clients.find(client => client.id === id)!),
+    listCases: vi.fn(async () => cases),
+    updateCase: vi.fn(async (id: number, input: CaseInput) => {
+      fail('updateCase', id, input);
+      return { id, ...input };
+    }),
+    deleteClient: vi.fn(async (id: number) => fail('deleteClient', id)),
+  };
+  return { api: api as unknown as LarApiClient, calls };
+}
+
+describe('buildClientDeletionPlan', () => {
+  it('toma solo los casos del cliente', async () => {
+    const { api } = fakeApi();
+    const plan = await buildClientDeletionPlan(api, 1, { strategy: 'reassign', targetClientId: 2 });
+    expect(plan.cases.map(legalCase => legalCase.id)).toEqual([10, 11]);
+    expect(plan.targetClient?.id).toBe(2);
+  });
+
+  it('exige una estrategia si el cliente tiene casos', async () => {
+    const { api } = fakeApi();
+    const plan = buildClientDeletionPlan(api, 1, {});
+    await expect(plan).rejects.toThrow(DeletionPlanError);
+    await expect(plan).rejects.toThrow(es.clients.chooseStrategy);
+  });
+
+  it('no exige estrategia si el cliente no tiene casos', async () => {
+    const { api } = fakeApi();
+    vi.mocked(api.listCases).mockResolvedValueOnce([]);
+    await expect(buildClientDeletionPlan(api, 1, {})).resolves.toMatchObject({ cases: [] });
+  });
+
+  it('rechaza reasignar los casos al mismo cliente', async () => {
+    const { api } = fakeApi();
+    await expect(buildClientDeletionPlan(api, 1, { strategy: 'reassign', targetClientId: 1 }))
+      .rejects.toThrow(es.clientDeletion.sameTarget);
+  });
+});
+
+describe('executeClientDeletionPlan', () => {
+  it('reasigna los casos y elimina el cliente', async () => {
+    const { api, calls } = fakeApi();
+    const plan = await buildClientDeletionPlan(api, 1, { strategy: 'reassign', targetClientId: 2 });
+
+    const outcome = await executeClientDeletionPlan(api, plan);
+    expect(outcome.deleted).toBe(true);
+    expect(outcome.steps.map(step => step.status)).toEqual(['done', 'done', 'done']);
+    expect(calls).toEqual(['updateCase:10->2', 'updateCase:11->2', 'deleteClient:1']);
+  });
+
+  it('deshace los pasos hechos si falla uno intermedio', async () => {
+    const { api, calls } = fakeApi((call, id) => call === 'updateCase' && id === 11);
+    const plan = await buildClientDeletionPlan(api, 1, { strategy: 'reassign', targetClientId: 2 });
+
+    const outcome = await executeClientDeletionPlan(api, plan);
+    expect(outcome.deleted).toBe(false);
+    expect(outcome.steps.map(step => step.status)).toEqual(['rolledBack', 'failed', 'notRun']);
+    expect(outcome.steps[1].error).toBe('falla updateCase 11');
+    expect(calls).toEqual(['updateCase:10->2', 'updateCase:11->2', 'updateCase:10->1']);
+  });
+
+  it('informa de los pasos que no se pudieron deshacer', async () => {
+    const { api } = fakeApi((call, id, input) => (call === 'deleteClient') || (call === 'updateCase' && id === 10 && input?.clientId === 1));
+    const plan = await buildClientDeletionPlan(api, 1, { strategy: 'reassign', targetClientId: 2 });
+
+    const outcome = await executeClientDeletionPlan(api, plan);
+    expect(outcome.deleted).toBe(false);
+    expect(outcome.steps.map(step => step.status)).toEqual(['rollbackFailed', 'rolledBack', 'failed']);
+  });
+
+  it('no ejecuta nada si la petición ya está cancelada', async () => {
+    const { api, calls } = fakeApi();
+    const plan = await buildClientDeletionPlan(api, 1, { strategy: 'reassign', targetClientId: 2 });
+
+    const outcome = await executeClientDeletionPlan(api, plan, { signal: AbortSignal.abort() });
+    expect(outcome.deleted).toBe(false);
+    expect(outcome.steps[0]).toMatchObject({ status: 'failed', error: es.clientDeletion.cancelled });
+    expect(calls).toEqual([]);
+  });
+});
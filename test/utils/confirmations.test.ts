@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { es } from '../../src/i18n/es.js';
+import { ConfirmationError, ConfirmationStore, ConfirmedOperation, recordsDigest } from '../../src/utils/confirmations.js';
+
+const operation: ConfirmedOperation = {
+  action: 'lar-delete-case',
+  target: 7,
+  caller: 'alice',
+  records: recordsDigest({ caseId: 7, documents: [3, 5], deadlines: [1] }),
+};
+
+describe('ConfirmationStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('acepta el token una sola vez', () => {
+    const store = new ConfirmationStore(60_000);
+    const { token } = store.issue(operation);
+
+    store.consume(token, operation);
+    expect(() => store.consume(token, operation)).toThrow(es.confirmation.invalidToken);
+  });
+
+  it('rechaza un token caducado', () => {
+    vi.useFakeTimers();
+    const store = new ConfirmationStore(60_000);
+    const { token } = store.issue(operation);
+
+    vi.advanceTimersByTime(60_001);
+    expect(() => store.consume(token, operation)).toThrow(ConfirmationError);
+    expect(() => store.consume(token, operation)).toThrow(es.confirmation.invalidToken);
+  });
+
+  it('rechaza el token si cambian los registros afectados', () => {
+    const store = new ConfirmationStore(60_000);
+    const { token } = store.issue(operation);
+
+    const records = recordsDigest({ caseId: 7, documents: [3, 5, 8], deadlines: [1] });
+    expect(() => store.consume(token, { ...operation, records })).toThrow(es.confirmation.recordsChanged);
+  });
+
+  it('rechaza el token para otra operación u otro objetivo', () => {
+    const store = new ConfirmationStore(60_000);
+    const first = store.issue(operation);
+    const second = store.issue(operation);
+
+    expect(() => store.consume(first.token, { ...operation, action: 'lar-delete-client' })).toThrow(es.confirmation.otherOperation);
+    expect(() => store.consume(second.token, { ...operation, target: 8 })).toThrow(es.confirmation.otherOperation);
+  });
+
+  it('no deja que otro usuario use ni gaste el token', () => {
+    const store = new ConfirmationStore(60_000);
+    const { token } = store.issue(operation);
+
+    expect(() => store.consume(token, { ...operation, caller: 'bob' })).toThrow(es.confirmation.invalidToken);
+    store.consume(token, operation);
+  });
+});
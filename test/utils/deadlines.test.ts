@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { withLocale } from '../../src/i18n/index.js';
+import { DeadlineCalendar, DeadlineError, DeadlineRule, computeDeadlines } from '../../src/utils/deadlines.js';
+
+const national: DeadlineCalendar = { calendars: ['ES'], extraHolidays: [], augustNonWorking: false };
+
+function rule(amount: number, unit: DeadlineRule['unit'], direction: DeadlineRule['direction'] = 'after'): DeadlineRule {
+  return { amount, unit, direction };
+}
+
+function dateOf(anchor: string, deadline: DeadlineRule, calendar = national): string {
+  return computeDeadlines(anchor, [deadline], calendar)[0].date;
+}
+
+describe('computeDeadlines', () => {
+  it('cuenta los días hábiles saltando el fin de semana', () => {
+    const [deadline] = computeDeadlines('2025-03-07', [rule(5, 'business')], national);
+    expect(deadline).toEqual({
+      rule: rule(5, 'business'),
+      anchor: '2025-03-07',
+      date: '2025-03-14',
+      skipped: [
+        { date: '2025-03-08', reason: 'sábado' },
+        { date: '2025-03-09', reason: 'domingo' },
+      ],
+    });
+  });
+
+  it('salta los festivos nacionales y los de la comunidad autónoma', () => {
+    expect(dateOf('2025-04-15', rule(3, 'business'))).toBe('2025-04-21');
+
+    const [deadline] = computeDeadlines('2025-04-15', [rule(3, 'business')], { ...national, calendars: ['ES', 'ES-MD'] });
+    expect(deadline.date).toBe('2025-04-22');
+    expect(deadline.skipped).toContainEqual({ date: '2025-04-17', reason: 'Jueves Santo (ES-MD)' });
+    expect(deadline.skipped).toContainEqual({ date: '2025-04-18', reason: 'Viernes Santo' });
+  });
+
+  it('describe los festivos en el idioma de la petición', () => {
+    const [deadline] = withLocale('en', () => computeDeadlines('2025-04-17', [rule(1, 'business')], national));
+    expect(deadline.skipped[0]).toEqual({ date: '2025-04-18', reason: 'Good Friday' });
+  });
+
+  it('cuenta hacia atrás en días hábiles', () => {
+    expect(dateOf('2025-03-10', rule(2, 'business', 'before'))).toBe('2025-03-06');
+  });
+
+  it('traslada al siguiente hábil el plazo en días naturales que acaba en inhábil', () => {
+    const [deadline] = computeDeadlines('2025-03-01', [rule(7, 'calendar')], national);
+    expect(deadline.date).toBe('2025-03-10');
+    expect(deadline.movedFrom).toBe('2025-03-08');
+    expect(deadline.skipped.map(day => day.date)).toEqual(['2025-03-08', '2025-03-09']);
+  });
+
+  it('traslada al hábil anterior el plazo en días naturales contado hacia atrás', () => {
+    const [deadline] = computeDeadlines('2025-03-18', [rule(10, 'calendar', 'before')], national);
+    expect(deadline.date).toBe('2025-03-07');
+    expect(deadline.movedFrom).toBe('2025-03-08');
+  });
+
+  it('no indica traslado si el plazo en días naturales acaba en hábil', () => {
+    const [deadline] = computeDeadlines('2025-03-03', [rule(10, 'calendar')], national);
+    expect(deadline).toEqual({ rule: rule(10, 'calendar'), anchor: '2025-03-03', date: '2025-03-13', skipped: [] });
+  });
+
+  it('salta agosto si se configura como inhábil', () => {
+    expect(dateOf('2025-07-31', rule(2, 'business'))).toBe('2025-08-04');
+
+    const [deadline] = computeDeadlines('2025-07-31', [rule(2, 'business')], { ...national, augustNonWorking: true });
+    expect(deadline.date).toBe('2025-09-02');
+    expect(deadline.skipped).toHaveLength(31);
+    expect(deadline.skipped[0]).toEqual({ date: '2025-08-01', reason: 'agosto inhábil' });
+  });
+
+  it('salta los festivos adicionales, concretos o de cada año', () => {
+    const calendar = { ...national, extraHolidays: ['03-19', '2026-03-20'] };
+    expect(dateOf('2025-03-18', rule(2, 'business'), calendar)).toBe('2025-03-21');
+    expect(dateOf('2026-03-18', rule(2, 'business'), calendar)).toBe('2026-03-24');
+    expect(computeDeadlines('2025-03-18', [rule(1, 'business')], calendar)[0].skipped)
+      .toEqual([{ date: '2025-03-19', reason: 'festivo adicional' }]);
+  });
+
+  it('calcula varias reglas sobre el mismo día de referencia', () => {
+    const deadlines = computeDeadlines('2025-03-07', [rule(5, 'business'), rule(20, 'business')], national);
+    expect(deadlines.map(deadline => deadline.date)).toEqual(['2025-03-14', '2025-04-04']);
+  });
+
+  it.each(['2025-02-30', '07/03/2025', ''])('rechaza la fecha de referencia inválida "%s"', anchor => {
+    expect(() => computeDeadlines(anchor, [rule(1, 'business')], national)).toThrow(DeadlineError);
+  });
+
+  it('rechaza los calendarios desconocidos y los festivos adicionales inválidos', () => {
+    expect(() => computeDeadlines('2025-03-07', [], { ...national, calendars: ['ES-XX'] })).toThrow(/ES-XX/);
+    expect(() => computeDeadlines('2025-03-07', [], { ...national, extraHolidays: ['13-01'] })).toThrow(DeadlineError);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { isBlockedAddress } from '../../src/utils/fetcher.js';
+
+describe('isBlockedAddress', () => {
+  it.each([
+    '0.0.0.0',
+    '10.1.2.3',
+    '100.64.0.1',
+    '127.0.0.1',
+    '169.254.169.254',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.0.0.8',
+    '192.168.1.10',
+    '198.18.0.1',
+    '224.0.0.251',
+    '255.255.255.255',
+  ])('bloquea la IPv4 interna o reservada %s', address => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '8.8.8.8',
+    '172.15.255.255',
+    '172.32.0.1',
+    '100.128.0.1',
+    '193.146.1.1',
+  ])('permite la IPv4 pública %s', address => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+
+  it.each([
+    '::',
+    '::1',
+    '64:ff9b::a00:1',
+    'fc00::1',
+    'fd12:3456::1',
+    'fe80::1',
+    'ff02::1',
+  ])('bloquea la IPv6 interna o reservada %s', address => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it('permite una IPv6 pública', () => {
+    expect(isBlockedAddress('2001:4860:4860::8888')).toBe(false);
+  });
+
+  it('comprueba las IPv4 mapeadas en IPv6 como IPv4', () => {
+    expect(isBlockedAddress('::ffff:10.0.0.1')).toBe(true);
+    expect(isBlockedAddress('::FFFF:127.0.0.1')).toBe(true);
+    expect(isBlockedAddress('::ffff:8.8.8.8')).toBe(false);
+  });
+
+  it('bloquea las IPv4 compatibles y las direcciones 6to4', () => {
+    expect(isBlockedAddress('::7f00:1')).toBe(true);
+    expect(isBlockedAddress('::a00:1')).toBe(true);
+    expect(isBlockedAddress('::808:808')).toBe(true);
+    expect(isBlockedAddress('2002:a00:1::1')).toBe(true);
+    expect(isBlockedAddress('2002:c0a8:101::')).toBe(true);
+  });
+
+  it('bloquea lo que no es una dirección IP', () => {
+    expect(isBlockedAddress('localhost')).toBe(true);
+    expect(isBlockedAddress('')).toBe(true);
+  });
+});
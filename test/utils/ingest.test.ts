@@ -0,0 +1,87 @@
+import JSZip from 'jszip';
+import { describe, expect, it, vi } from 'vitest';
+import { LarApiClient } from '../../src/api/client.js';
+import { es } from '../../src/i18n/es.js';
+import { ingestDocument, listArchiveEntries } from '../../src/utils/ingest.js';
+import { UploadError } from '../../src/utils/upload.js';
+
+// La configuración se carga la primera vez que se pide, ya con este límite.
+vi.stubEnv('LAR_FETCH_MAX_BYTES', String(1024 * 1024));
+
+const KB = 1024;
+
+/** PDF mínimo relleno hasta `size` bytes, para que se suba sin convertir. */
+function pdf(size: number): Buffer {
+  return Buffer.concat([Buffer.from('%PDF-1.4\n'), Buffer.alloc(size - 9, 'a')]);
+}
+
+async function zip(files: Record<string, Buffer | null>): Promise<Buffer> {
+  const archive = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    if (content === null) {
+      archive.folder(name);
+    } else {
+      archive.file(name, content);
+    }
+  }
+  return archive.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+function fakeApi() {
+  const uploadFile = vi.fn(async (name: string) => ({ id: 1, name }));
+  return { api: { uploadFile } as unknown as LarApiClient, uploadFile };
+}
+
+describe('listArchiveEntries', () => {
+  it('enumera solo los ficheros, sin directorios, ocultos ni metadatos de macOS', async () => {
+    const entries = await listArchiveEntries(await zip({
+      'demanda.pdf': pdf(KB),
+      'anexos/': null,
+      'anexos/informe.pdf': pdf(KB),
+      '.DS_Store': Buffer.from('x'),
+      '__MACOSX/._demanda.pdf': Buffer.from('x'),
+    }));
+    expect(entries.map(entry => entry.name)).toEqual(['demanda.pdf', 'informe.pdf']);
+  });
+
+  it('rechaza lo que no es un ZIP', async () => {
+    await expect(listArchiveEntries(Buffer.from('no es un zip'))).rejects.toThrow(es.upload.invalidArchive);
+  });
+
+  it('rechaza un ZIP mayor que LAR_FETCH_MAX_BYTES', async () => {
+    await expect(listArchiveEntries(Buffer.alloc(2 * 1024 * KB))).rejects.toThrow(es.upload.tooLarge('1.0'));
+  });
+});
+
+describe('ingestDocument con entradas de un ZIP', () => {
+  it('sube una entrada dentro del límite', async () => {
+    const [entry] = await listArchiveEntries(await zip({ 'demanda.pdf': pdf(10 * KB) }));
+    const { api, uploadFile } = fakeApi();
+
+    const { document, converted } = await ingestDocument(api, entry.name, entry.source);
+    expect(document).toEqual({ id: 1, name: 'demanda.pdf' });
+    expect(converted.data.length).toBe(10 * KB);
+    expect(uploadFile).toHaveBeenCalledOnce();
+  });
+
+  it('corta al descomprimir una entrada mayor que el límite, aunque el ZIP sea pequeño', async () => {
+    const archive = await zip({ 'bomba.pdf': pdf(3 * 1024 * KB) });
+    expect(archive.length).toBeLessThan(1024 * KB);
+    const [entry] = await listArchiveEntries(archive);
+    const { api, uploadFile } = fakeApi();
+
+    const upload = ingestDocument(api, entry.name, entry.source);
+    await expect(upload).rejects.toThrow(UploadError);
+    await expect(upload).rejects.toThrow(es.upload.archiveEntryTooLarge('bomba.pdf'));
+    expect(uploadFile).not.toHaveBeenCalled();
+  });
+
+  it('limita el total descomprimido de todas las entradas del ZIP', async () => {
+    const [first, second] = await listArchiveEntries(await zip({ 'uno.pdf': pdf(600 * KB), 'dos.pdf': pdf(600 * KB) }));
+    const { api, uploadFile } = fakeApi();
+
+    await ingestDocument(api, first.name, first.source);
+    await expect(ingestDocument(api, second.name, second.source)).rejects.toThrow(es.upload.archiveTooLarge('1.0'));
+    expect(uploadFile).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { SseParser } from '../../src/utils/sse.js';
+
+describe('SseParser', () => {
+  it('despacha un evento al llegar la línea en blanco', () => {
+    const parser = new SseParser();
+    expect(parser.feed('event: progress\ndata: {"step":1}\nid: 7\nretry: 1500\n\n')).toEqual([
+      { event: 'progress', data: '{"step":1}', id: '7', retry: 1500 },
+    ]);
+  });
+
+  it('usa "message" como nombre si no hay campo event', () => {
+    const parser = new SseParser();
+    expect(parser.feed('data: hola\n\n')).toEqual([
+      { event: 'message', data: 'hola', id: undefined, retry: undefined },
+    ]);
+  });
+
+  it('une varias líneas data con saltos de línea', () => {
+    const parser = new SseParser();
+    const [event] = parser.feed('data: uno\ndata:dos\ndata\n\n');
+    expect(event.data).toBe('uno\ndos\n');
+  });
+
+  it('acumula líneas y eventos partidos entre trozos', () => {
+    const parser = new SseParser();
+    expect(parser.feed('da')).toEqual([]);
+    expect(parser.feed('ta: hol')).toEqual([]);
+    expect(parser.feed('a\n')).toEqual([]);
+    expect(parser.feed('\ndata: adiós\n\n').map(event => event.data)).toEqual(['hola', 'adiós']);
+  });
+
+  it('admite CR, LF y CRLF como fin de línea, también con el CRLF partido', () => {
+    const parser = new SseParser();
+    expect(parser.feed('data: a\r\n\r\ndata: b\r\rdata: c\r')).toHaveLength(2);
+    expect(parser.feed('\n\r\n').map(event => event.data)).toEqual(['c']);
+  });
+
+  it('ignora los comentarios, los campos desconocidos y los valores inválidos', () => {
+    const parser = new SseParser();
+    const events = parser.feed(': keep-alive\nfoo: bar\nretry: pronto\nid: a\0b\ndata: x\n\n');
+    expect(events).toEqual([{ event: 'message', data: 'x', id: undefined, retry: undefined }]);
+  });
+
+  it('no despacha eventos sin datos y olvida su nombre', () => {
+    const parser = new SseParser();
+    expect(parser.feed('event: ping\n\ndata: x\n\n')).toEqual([
+      { event: 'message', data: 'x', id: undefined, retry: undefined },
+    ]);
+  });
+
+  it('mantiene el último id en los eventos siguientes', () => {
+    const parser = new SseParser();
+    const events = parser.feed('id: 1\ndata: a\n\ndata: b\n\n');
+    expect(events.map(event => event.id)).toEqual(['1', '1']);
+  });
+
+  it('despacha al cerrar el stream el evento sin línea en blanco final', () => {
+    const parser = new SseParser();
+    expect(parser.feed('data: a\n\ndata: fin')).toHaveLength(1);
+    expect(parser.end()).toEqual([{ event: 'message', data: 'fin', id: undefined, retry: undefined }]);
+    expect(parser.end()).toEqual([]);
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // messages() carga la configuración; sin autenticación el modo HTTP por defecto es válido.
+    env: {
+      LAR_HTTP_AUTH: 'none',
+      LAR_LOCALE: 'es',
+    },
+  },
+});